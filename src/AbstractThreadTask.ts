@@ -1,4 +1,26 @@
 import { Observable } from 'rxjs';
+import { ResourceLimits } from 'worker_threads';
+import { RetryPolicy } from './RetryPolicy';
+
+/**
+ * Fork/join facility passed to a thread function for recursive divide-and-conquer
+ * @template T - Input value type of the forked child tasks
+ * @template V - Output value type of the forked child tasks
+ */
+export interface ForkJoin<T = any, V = any> {
+  /**
+   * Spawn a child task running the same thread function on the same pool
+   * @param subInput - The single input value of the child task
+   */
+  fork(subInput: T): void;
+
+  /**
+   * Wait for every child forked since the previous join().
+   * Children that have not started yet are run by the joining thread itself.
+   * @returns Promise of the values emitted by the children, in fork order
+   */
+  join(): Promise<V[]>;
+}
 
 /**
  * Type definition for the thread function callback
@@ -12,7 +34,55 @@ export type ThreadFunc<
   I extends Observable<T>,
   V,
   R extends Observable<V>
-> = (input: I, threadId: number) => R;
+> = (input: I, threadId: number, forkJoin: ForkJoin<T, V>) => R;
+
+/**
+ * Output value type of a task, taken from the type of the observable its thread function returns
+ * @template K - The task type
+ */
+export type TaskOutput<K> =
+  K extends AbstractThreadTask<any, any, any, infer R> ? (R extends Observable<infer V> ? V : never) : never;
+
+/**
+ * Describes how a worker obtains a task's thread function
+ * - 'function': rebuilt from the serialized source of a self-contained function
+ * - 'module': loaded from an exported function of a module, which may import anything it needs
+ */
+export type ThreadFuncSource =
+  | { kind: 'function'; functionString: string }
+  | { kind: 'module'; modulePath: string; exportName: string };
+
+/**
+ * Options accepted by every thread task
+ */
+export interface ThreadTaskOptions {
+  /**
+   * Identifier of the task, reported as ThreadResult.taskId. Inside a worker it replaces the
+   * index in the generated id, following the id of the enclosing task: '<parent id>.<id>'.
+   * Unique ids are the caller's responsibility. (default: generated)
+   */
+  id?: string;
+  /** Name identifying the task in errors and logs (default: the thread function's name) */
+  name?: string;
+  /** Abort the task when it has not finished this many milliseconds after it started */
+  timeoutMs?: number;
+  /** Cancel the task when this signal is aborted */
+  signal?: AbortSignal;
+  /** Retry the task when it fails; overrides the retry policy of its ThreadQueue */
+  retry?: RetryPolicy;
+  /** Move the ArrayBuffers and MessagePorts of every input value to the worker instead of copying them */
+  transferInput?: boolean;
+  /** Move the ArrayBuffers and MessagePorts of every output value back instead of copying them */
+  transferOutput?: boolean;
+  /** Resource limits of the worker running the task; overrides the ThreadPool's */
+  resourceLimits?: ResourceLimits;
+  /**
+   * Run the task on the worker its key hashes to: tasks with the same key run on the same
+   * worker, one at a time, in the order they got a thread. The worker has the pool's
+   * resource limits; the task's own are ignored.
+   */
+  routingKey?: string;
+}
 
 /**
  * Abstract base class for thread tasks
@@ -30,15 +100,26 @@ export abstract class AbstractThreadTask<
 > {
   protected threadFunc: ThreadFunc<T, I, V, R>;
   protected input: I;
+  protected readonly options: ThreadTaskOptions;
+  private readonly abortController: AbortController;
 
   /**
    * Constructor for AbstractThreadTask
    * @param threadFunc - The callback function to execute in the thread
    * @param input - The input observable to pass to the thread function
+   * @param options - Optional timeout and cancellation signal
    */
-  protected constructor(threadFunc: ThreadFunc<T, I, V, R>, input: I) {
+  protected constructor(threadFunc: ThreadFunc<T, I, V, R>, input: I, options: ThreadTaskOptions = {}) {
     this.threadFunc = threadFunc;
     this.input = input;
+    this.options = options;
+    this.abortController = new AbortController();
+
+    if (options.signal?.aborted) {
+      this.cancel();
+    } else {
+      options.signal?.addEventListener('abort', () => this.cancel(), {once: true});
+    }
   }
 
   /**
@@ -48,12 +129,100 @@ export abstract class AbstractThreadTask<
     return this.input;
   }
 
+  /**
+   * Replace the input observable, e.g. with the output of the tasks this task depends on.
+   * Attempts that have already started keep the input they were given.
+   * @param input - The new input observable
+   */
+  setInput(input: I): void {
+    this.input = input;
+  }
+
   /**
    * Get the thread function
    */
   getThreadFunc(): ThreadFunc<T, I, V, R> {
     return this.threadFunc;
   }
+
+  /**
+   * Get the caller-supplied identifier of the task, if it has one
+   */
+  getId(): string | undefined {
+    return this.options.id;
+  }
+
+  /**
+   * Get the name identifying the task
+   */
+  getName(): string {
+    return this.options.name ?? (this.threadFunc.name || 'anonymous');
+  }
+
+  /**
+   * Get the task's timeout, if it has one
+   */
+  getTimeoutMs(): number | undefined {
+    return this.options.timeoutMs;
+  }
+
+  /**
+   * Get the task's own retry policy, if it has one
+   */
+  getRetryPolicy(): RetryPolicy | undefined {
+    return this.options.retry;
+  }
+
+  /**
+   * Check whether the task's input values are transferred rather than copied
+   */
+  getTransferInput(): boolean {
+    return this.options.transferInput ?? false;
+  }
+
+  /**
+   * Check whether the task's output values are transferred rather than copied
+   */
+  getTransferOutput(): boolean {
+    return this.options.transferOutput ?? false;
+  }
+
+  /**
+   * Get the resource limits of the worker the task needs, if it sets its own
+   */
+  getResourceLimits(): ResourceLimits | undefined {
+    return this.options.resourceLimits;
+  }
+
+  /**
+   * Get the key routing the task to a worker, if it has one
+   */
+  getRoutingKey(): string | undefined {
+    return this.options.routingKey;
+  }
+
+  /**
+   * Get the signal that reports the task's cancellation
+   */
+  getSignal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Cancel the task. A running task is stopped and its worker terminated; a task
+   * that has not started yet finishes immediately. Cancellation is permanent.
+   */
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Get the description a worker uses to obtain the thread function.
+   * By default the thread function is serialized to its source string.
+   */
+  getThreadFuncSource(): ThreadFuncSource {
+    return {kind: 'function', functionString: this.threadFunc.toString()};
+  }
 }
 
 /**
@@ -65,7 +234,7 @@ export class ThreadTask<
   V = any,
   R extends Observable<V> = Observable<any>
 > extends AbstractThreadTask<T, I, V, R> {
-  constructor(threadFunc: ThreadFunc<T, I, V, R>, input: I) {
-    super(threadFunc, input);
+  constructor(threadFunc: ThreadFunc<T, I, V, R>, input: I, options?: ThreadTaskOptions) {
+    super(threadFunc, input, options);
   }
 }
@@ -0,0 +1,120 @@
+import { Observable } from 'rxjs';
+import { AbstractThreadTask, ThreadFunc, ThreadTaskOptions } from './AbstractThreadTask';
+
+/**
+ * Identity and state of an actor, handed to its behavior. The state stays on the worker
+ * between the actor's tasks; assign actor.state to replace it.
+ * @template S - State type
+ */
+export interface Actor<S = any> {
+  readonly key: string;
+  state: S;
+}
+
+/**
+ * Behavior of an actor: handles the input values of one of its tasks, reading and updating its state.
+ * Like a thread function, it must be self-contained.
+ * @template S - State type
+ * @template T - Input value type
+ * @template V - Output value type
+ */
+export type ActorFunc<S, T, V> = (input: Observable<T>, actor: Actor<S>) => Observable<V>;
+
+/**
+ * Options of an ActorTask
+ * @template S - State type
+ */
+export interface ActorTaskOptions<S = any> extends Omit<ThreadTaskOptions, 'routingKey'> {
+  /** State of the actor before its first task (default undefined), copied like an input value */
+  initialState?: S;
+}
+
+/**
+ * Binding of an actor task to its actor, sent to the worker along with the task
+ */
+export interface ActorBinding {
+  key: string;
+  initialState: any;
+  /** State carried over from the actor's previous worker by a rebalance; replaces the worker's */
+  migrated?: { state: any };
+}
+
+// Actors whose tasks ran on this thread, by key
+const actors = new Map<string, Actor>();
+
+/**
+ * ActorTask runs the behavior of a stateful actor identified by a key. The key is the task's
+ * routing key, so every task of an actor runs on the same worker, one at a time, and finds
+ * the state the previous one left there. The state is lost if the worker exits, and moves
+ * with the actor when ThreadPool.rebalance() assigns its key to another worker.
+ * @template S - State type
+ * @template T - Input value type
+ * @template V - Output value type
+ */
+export class ActorTask<S = any, T = any, V = any> extends AbstractThreadTask<T, Observable<T>, V, Observable<V>> {
+  private readonly initialState: S | undefined;
+
+  /**
+   * Constructor for ActorTask
+   * @param key - Key of the actor
+   * @param behavior - Handles the task's input values with the actor's state
+   * @param input - The input observable to pass to the behavior
+   * @param options - Initial state of the actor, and the options of every thread task but the routing key
+   */
+  constructor(key: string, behavior: ActorFunc<S, T, V>, input: Observable<T>, options: ActorTaskOptions<S> = {}) {
+    const {initialState, ...taskOptions} = options;
+    // Workers bind the behavior to its actor before running it, see bindActor()
+    super(behavior as unknown as ThreadFunc<T, Observable<T>, V, Observable<V>>, input, {...taskOptions, routingKey: key});
+    this.initialState = initialState;
+  }
+
+  /**
+   * Get the key of the actor
+   */
+  getActorKey(): string {
+    return this.getRoutingKey()!;
+  }
+
+  /**
+   * Get the state of the actor before its first task
+   */
+  getInitialState(): S | undefined {
+    return this.initialState;
+  }
+}
+
+/**
+ * Bind an actor's behavior to the actor's state on the current thread
+ * @param threadFunc - Thread function of the actor task, i.e. its behavior, compiled on the current thread
+ * @param binding - The actor the task belongs to
+ * @returns Thread function running the behavior with the actor
+ */
+export function bindActor(threadFunc: ThreadFunc<any, any, any, any>, binding: ActorBinding): ThreadFunc<any, any, any, any> {
+  // ActorTask hands its behavior to AbstractThreadTask as its thread function
+  const behavior = threadFunc as unknown as ActorFunc<any, any, any>;
+  return (input: Observable<any>) => {
+    let actor = actors.get(binding.key);
+    if (binding.migrated || !actor) {
+      actor = {key: binding.key, state: binding.migrated ? binding.migrated.state : binding.initialState};
+      actors.set(binding.key, actor);
+    }
+    return behavior(input, actor);
+  };
+}
+
+/**
+ * Remove actors from the current thread, e.g. to move them to another worker
+ * @param keys - Keys of the actors
+ * @returns State of each of the actors found on the current thread, by key
+ */
+export function exportActors(keys: string[]): [string, any][] {
+  const states: [string, any][] = [];
+  for (const key of keys) {
+    const actor = actors.get(key);
+    if (actor) {
+      actors.delete(key);
+      states.push([key, actor.state]);
+    }
+  }
+  return states;
+}
@@ -0,0 +1,328 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { Observable, Subject } from 'rxjs';
+import { AgentFrame, MAX_HELLO_BYTES, readFrames, writeFrame } from './AgentProtocol';
+import {
+  createWorkerLostError,
+  Executor,
+  ExecutorSpawnOptions,
+  ExecutorWorker,
+  WorkerThreadExecutor
+} from './Executor';
+import { deserializeError } from './ThreadTaskError';
+
+// Longest name and token an agent's hello may carry
+const MAX_AGENT_NAME_LENGTH = 256;
+const MAX_TOKEN_LENGTH = 1024;
+
+/**
+ * Options for an AgentCoordinator
+ */
+export interface AgentCoordinatorOptions {
+  /** Port agents connect to (default 7400); 0 picks a free port */
+  port?: number;
+  /** Interface to listen on (default '127.0.0.1') */
+  host?: string;
+  /** Secret agents must present to be accepted (default: any agent is accepted) */
+  token?: string;
+  /** Backend of the pool's own threads (default: a WorkerThreadExecutor) */
+  local?: Executor;
+}
+
+/**
+ * A worker agent connected to an AgentCoordinator
+ */
+export interface AgentInfo {
+  agentId: number;
+  name: string;
+  /** Remote address of the agent's connection */
+  address: string;
+  /** Number of workers the agent runs at most */
+  capacity: number;
+  /** Number of the agent's workers the pool keeps, busy or idle */
+  workers: number;
+}
+
+/**
+ * Connection state of an agent
+ */
+interface ConnectedAgent {
+  info: AgentInfo;
+  socket: net.Socket;
+  workers: Map<number, RemoteWorker>;
+  nextSlot: number;
+}
+
+/**
+ * AgentCoordinator is an Executor that runs a ThreadPool's tasks on its own threads and,
+ * once those are all busy, on worker agents connected over TCP. Every agent advertises a
+ * capacity, which adds that many slots to the pool. A task running on an agent that
+ * disconnects is run again on another worker. The coordinator serves one pool.
+ */
+export class AgentCoordinator implements Executor {
+  readonly name = 'agents';
+  readonly inline = false;
+  private readonly port: number;
+  private readonly host: string;
+  private readonly token: string | undefined;
+  private readonly local: Executor;
+  private readonly agents: Map<number, ConnectedAgent>;
+  private readonly capacityChanges: Subject<number>;
+  private server: net.Server | undefined;
+  private nextAgentId: number = 1;
+
+  /**
+   * Constructor for AgentCoordinator
+   * @param options - Where to listen, the agents' secret, and the backend of local threads
+   */
+  constructor(options: AgentCoordinatorOptions = {}) {
+    this.port = options.port ?? 7400;
+    this.host = options.host ?? '127.0.0.1';
+    this.token = options.token;
+    this.local = options.local ?? new WorkerThreadExecutor();
+    this.agents = new Map();
+    this.capacityChanges = new Subject();
+  }
+
+  /**
+   * Start accepting agents
+   * @returns Promise resolved with the port listened on
+   * @throws Error if the coordinator was already started
+   */
+  start(): Promise<number> {
+    if (this.server) {
+      throw new Error('AgentCoordinator has already been started');
+    }
+
+    const server = net.createServer(socket => this.accept(socket));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Stop accepting agents and disconnect the connected ones; their tasks are run again locally
+   * @returns Promise resolved once the server is closed
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    for (const [, agent] of this.agents) {
+      agent.socket.destroy();
+    }
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Get the connected agents
+   */
+  getAgents(): AgentInfo[] {
+    return [...this.agents.values()].map(agent => ({...agent.info, workers: agent.workers.size}));
+  }
+
+  getExtraCapacity(): number {
+    let capacity = 0;
+    this.agents.forEach(agent => capacity += agent.info.capacity);
+    return capacity;
+  }
+
+  getCapacityChanges(): Observable<number> {
+    return this.capacityChanges.asObservable();
+  }
+
+  spawn(options: ExecutorSpawnOptions): ExecutorWorker {
+    const agent = options.overflow ? this.findFreeAgent() : undefined;
+    if (!agent) {
+      return this.local.spawn(options);
+    }
+
+    const slot = agent.nextSlot++;
+    const worker = new RemoteWorker(agent, slot);
+    agent.workers.set(slot, worker);
+    // The agent's workers share the agent's thread budget instead of the coordinator's
+    const workerData = {...options.workerData};
+    delete workerData.governor;
+    writeFrame(agent.socket, {type: 'spawn', slot, workerData, resourceLimits: options.resourceLimits});
+    return worker;
+  }
+
+  /**
+   * Get the agent with the most capacity left, if any has some
+   */
+  private findFreeAgent(): ConnectedAgent | undefined {
+    let best: ConnectedAgent | undefined;
+    for (const [, agent] of this.agents) {
+      const free = agent.info.capacity - agent.workers.size;
+      if (free > 0 && (!best || free > best.info.capacity - best.workers.size)) {
+        best = agent;
+      }
+    }
+    return best;
+  }
+
+  private accept(socket: net.Socket): void {
+    let agent: ConnectedAgent | undefined;
+    socket.setNoDelay(true);
+    socket.on('error', () => {});
+
+    // Until it is admitted, a connection may only send a small hello
+    readFrames<AgentFrame>(socket, frame => {
+      if (!agent) {
+        agent = this.register(socket, frame);
+        if (!agent) {
+          socket.destroy();
+        }
+        return;
+      }
+      if (frame.type !== 'hello') {
+        agent.workers.get(frame.slot)?.handleFrame(frame);
+      }
+    }, {maxFirstFrameBytes: MAX_HELLO_BYTES});
+
+    socket.on('close', () => {
+      if (agent && this.agents.delete(agent.info.agentId)) {
+        for (const [, worker] of agent.workers) {
+          worker.lose();
+        }
+        this.capacityChanges.next(this.getExtraCapacity());
+      }
+    });
+  }
+
+  /**
+   * Admit an agent that introduced itself
+   * @returns The agent, or undefined if its first frame is not a valid hello
+   */
+  private register(socket: net.Socket, frame: unknown): ConnectedAgent | undefined {
+    if (!isHello(frame)) {
+      return undefined;
+    }
+    if (this.token !== undefined && (frame.token === undefined || !tokensMatch(this.token, frame.token))) {
+      return undefined;
+    }
+
+    const agent: ConnectedAgent = {
+      info: {
+        agentId: this.nextAgentId++,
+        name: frame.name,
+        address: `${socket.remoteAddress}:${socket.remotePort}`,
+        capacity: frame.capacity,
+        workers: 0
+      },
+      socket,
+      workers: new Map(),
+      nextSlot: 1
+    };
+    this.agents.set(agent.info.agentId, agent);
+    this.capacityChanges.next(this.getExtraCapacity());
+    return agent;
+  }
+}
+
+/**
+ * Check that a frame sent by a connection not admitted yet is a well-formed hello
+ */
+function isHello(frame: unknown): frame is Extract<AgentFrame, { type: 'hello' }> {
+  if (typeof frame !== 'object' || frame === null) {
+    return false;
+  }
+  const hello: Record<string, unknown> = {...frame};
+  return hello.type === 'hello'
+    && typeof hello.capacity === 'number' && Number.isInteger(hello.capacity) && hello.capacity >= 1
+    && typeof hello.name === 'string' && hello.name.length >= 1 && hello.name.length <= MAX_AGENT_NAME_LENGTH
+    && (hello.token === undefined || (typeof hello.token === 'string' && hello.token.length <= MAX_TOKEN_LENGTH));
+}
+
+/**
+ * Compare a token with the expected one in constant time. Both are hashed first, so the
+ * comparison does not depend on, nor reveal, the length of the expected token either.
+ */
+function tokensMatch(expected: string, token: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(expected), digest(token));
+}
+
+/**
+ * A worker run by an agent, seen as an ExecutorWorker
+ */
+class RemoteWorker extends EventEmitter implements ExecutorWorker {
+  readonly remote = true;
+  private readonly agent: ConnectedAgent;
+  private readonly slot: number;
+  private readonly exited: Promise<number>;
+  private resolveExited!: (code: number) => void;
+  private alive: boolean = true;
+
+  /**
+   * Constructor for RemoteWorker
+   * @param agent - The agent running the worker
+   * @param slot - Identifier of the worker on its agent
+   */
+  constructor(agent: ConnectedAgent, slot: number) {
+    super();
+    this.agent = agent;
+    this.slot = slot;
+    this.exited = new Promise(resolve => this.resolveExited = resolve);
+  }
+
+  postMessage(message: any): void {
+    if (this.alive) {
+      writeFrame(this.agent.socket, {type: 'message', slot: this.slot, message});
+    }
+  }
+
+  terminate(): Promise<number> {
+    if (this.alive) {
+      writeFrame(this.agent.socket, {type: 'terminate', slot: this.slot});
+    }
+    return this.exited;
+  }
+
+  // The coordinator's server keeps the process alive until it is stopped
+  ref(): void {}
+
+  unref(): void {}
+
+  /**
+   * Handle a frame the agent sent about this worker
+   */
+  handleFrame(frame: Exclude<AgentFrame, { type: 'hello' }>): void {
+    if (frame.type === 'message') {
+      this.emit('message', frame.message);
+    } else if (frame.type === 'error') {
+      this.emit('error', Object.assign(deserializeError(frame.error), frame.code ? {code: frame.code} : {}));
+    } else if (frame.type === 'exit') {
+      this.exit(frame.code);
+    }
+  }
+
+  /**
+   * Report the worker as lost along with its agent's connection
+   */
+  lose(): void {
+    if (this.alive) {
+      this.emit('error', createWorkerLostError(`Agent "${this.agent.info.name}" disconnected`));
+      this.exit(1);
+    }
+  }
+
+  private exit(code: number): void {
+    if (!this.alive) {
+      return;
+    }
+    this.alive = false;
+    this.agent.workers.delete(this.slot);
+    this.emit('exit', code);
+    this.resolveExited(code);
+  }
+}
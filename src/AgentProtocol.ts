@@ -0,0 +1,110 @@
+import { Socket } from 'net';
+import * as v8 from 'v8';
+import { ResourceLimits } from 'worker_threads';
+import { SerializedError } from './ThreadTaskError';
+
+/**
+ * Frames a worker agent sends to its coordinator. Each worker the coordinator started on the
+ * agent is identified by a slot number; 'message' frames carry worker.js messages unchanged.
+ */
+export type AgentFrame =
+  | { type: 'hello'; capacity: number; name: string; token?: string }
+  | { type: 'message'; slot: number; message: any }
+  | { type: 'error'; slot: number; error: SerializedError; code?: string }
+  | { type: 'exit'; slot: number; code: number };
+
+/**
+ * Frames a coordinator sends to a worker agent
+ */
+export type CoordinatorFrame =
+  | { type: 'spawn'; slot: number; workerData: any; resourceLimits?: ResourceLimits }
+  | { type: 'message'; slot: number; message: any }
+  | { type: 'terminate'; slot: number };
+
+// Frames are prefixed with their length as a 32-bit unsigned integer
+const HEADER_BYTES = 4;
+
+// Largest frame accepted by default; task inputs and results travel in frames
+export const MAX_FRAME_BYTES = 256 * 1024 * 1024;
+
+// Largest hello accepted from a connection that has not been admitted yet
+export const MAX_HELLO_BYTES = 4096;
+
+/**
+ * Limits on the frames read from a connection
+ */
+export interface FrameLimits {
+  /** Largest frame, in bytes (default MAX_FRAME_BYTES) */
+  maxFrameBytes?: number;
+  /** Largest first frame, in bytes (default: maxFrameBytes) */
+  maxFirstFrameBytes?: number;
+}
+
+/**
+ * Send a frame, serialized like a structured clone
+ * @param socket - The connection
+ * @param frame - The frame
+ */
+export function writeFrame(socket: Socket, frame: AgentFrame | CoordinatorFrame): void {
+  const payload = v8.serialize(frame);
+  const header = Buffer.alloc(HEADER_BYTES);
+  header.writeUInt32BE(payload.length);
+  socket.write(Buffer.concat([header, payload]));
+}
+
+/**
+ * Call a handler with every frame received on a connection. A connection carrying
+ * anything but frames, or announcing a frame beyond the limits, is destroyed before
+ * the frame is buffered.
+ * @param socket - The connection
+ * @param onFrame - Receives the frames in order
+ * @param limits - Largest frames accepted
+ */
+export function readFrames<F>(socket: Socket, onFrame: (frame: F) => void, limits: FrameLimits = {}): void {
+  const maxFrameBytes = limits.maxFrameBytes ?? MAX_FRAME_BYTES;
+  let maxBytes = limits.maxFirstFrameBytes ?? maxFrameBytes;
+  // Chunks received and not consumed yet, joined only once a whole header or frame is there
+  let chunks: Buffer[] = [];
+  let bufferedBytes = 0;
+  // Length of the frame being received, once its header was read
+  let frameBytes: number | undefined;
+
+  const take = (bytes: number): Buffer => {
+    const buffered = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks, bufferedBytes);
+    chunks = buffered.length > bytes ? [buffered.subarray(bytes)] : [];
+    bufferedBytes -= bytes;
+    return buffered.subarray(0, bytes);
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    chunks.push(chunk);
+    bufferedBytes += chunk.length;
+    while (!socket.destroyed) {
+      if (frameBytes === undefined) {
+        if (bufferedBytes < HEADER_BYTES) {
+          return;
+        }
+        frameBytes = take(HEADER_BYTES).readUInt32BE(0);
+        if (frameBytes > maxBytes) {
+          socket.destroy(new Error(`Frame of ${frameBytes} bytes exceeds the limit of ${maxBytes} bytes`));
+          return;
+        }
+      }
+      if (bufferedBytes < frameBytes) {
+        return;
+      }
+
+      const payload = take(frameBytes);
+      frameBytes = undefined;
+      maxBytes = maxFrameBytes;
+      let frame: F;
+      try {
+        frame = v8.deserialize(payload);
+      } catch (error) {
+        socket.destroy(error as Error);
+        return;
+      }
+      onFrame(frame);
+    }
+  });
+}
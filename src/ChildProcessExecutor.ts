@@ -0,0 +1,120 @@
+import { ChildProcess, fork } from 'child_process';
+import { EventEmitter } from 'events';
+import * as os from 'os';
+import { ResourceLimits } from 'worker_threads';
+import { Executor, ExecutorSpawnOptions, ExecutorWorker, WORKER_SCRIPT } from './Executor';
+
+/**
+ * Options for a ChildProcessExecutor
+ */
+export interface ChildProcessExecutorOptions {
+  /** Node.js options of the child processes, added to those derived from resource limits */
+  execArgv?: string[];
+  /** Environment of the child processes (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Runs tasks in child processes started with child_process.fork(), isolating them fully:
+ * each worker has its own heap, and a crash of a native module only takes down its own
+ * process. Messages are copied with the advanced (structured clone) serialization, so
+ * transfers are copies, and SharedArrayBuffers and MessagePorts cannot be passed.
+ * Pools created inside a child process draw on a thread budget of their own.
+ */
+export class ChildProcessExecutor implements Executor {
+  readonly name = 'child-process';
+  readonly inline = false;
+  private readonly options: ChildProcessExecutorOptions;
+
+  /**
+   * Constructor for ChildProcessExecutor
+   * @param options - Node.js options and environment of the child processes
+   */
+  constructor(options: ChildProcessExecutorOptions = {}) {
+    this.options = options;
+  }
+
+  spawn(options: ExecutorSpawnOptions): ExecutorWorker {
+    const child = fork(WORKER_SCRIPT, [], {
+      execArgv: [...process.execArgv, ...limitArgs(options.resourceLimits), ...(this.options.execArgv ?? [])],
+      env: this.options.env,
+      serialization: 'advanced',
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc']
+    });
+    // A shared governor buffer cannot cross the process boundary
+    const workerData = {...options.workerData};
+    delete workerData.governor;
+    return new ChildProcessWorker(child, workerData, options.resourceLimits);
+  }
+}
+
+/**
+ * A child process seen as an ExecutorWorker
+ */
+class ChildProcessWorker extends EventEmitter implements ExecutorWorker {
+  private readonly child: ChildProcess;
+  private readonly exited: Promise<number>;
+
+  /**
+   * Constructor for ChildProcessWorker
+   * @param child - The forked process running worker.js
+   * @param workerData - Data sent to worker.js as its first message
+   * @param resourceLimits - Limits the process was started with
+   */
+  constructor(child: ChildProcess, workerData: any, resourceLimits: ResourceLimits | undefined) {
+    super();
+    this.child = child;
+    this.exited = new Promise(resolve => child.once('exit', (code, signal) => resolve(code ?? exitCode(signal))));
+
+    child.on('message', message => this.emit('message', message));
+    child.on('error', error => this.emit('error', error));
+    child.once('exit', (code, signal) => {
+      // V8 aborts the process when it exceeds its heap limit
+      if (signal === 'SIGABRT' && resourceLimits?.maxOldGenerationSizeMb !== undefined) {
+        this.emit('error', Object.assign(new Error('Child process ran out of memory'), {code: 'ERR_WORKER_OUT_OF_MEMORY'}));
+      }
+      this.emit('exit', code ?? exitCode(signal));
+    });
+    child.send({type: 'worker-data', workerData});
+  }
+
+  postMessage(message: any): void {
+    if (this.child.connected) {
+      this.child.send(message);
+    }
+  }
+
+  terminate(): Promise<number> {
+    if (this.child.exitCode === null && this.child.signalCode === null) {
+      // An idle child is unref'd; keep the process alive until its exit is seen
+      this.ref();
+      this.child.kill();
+    }
+    return this.exited;
+  }
+
+  ref(): void {
+    this.child.ref();
+    this.child.channel?.ref();
+  }
+
+  unref(): void {
+    this.child.unref();
+    this.child.channel?.unref();
+  }
+}
+
+/**
+ * Node.js options enforcing the resource limits a child process supports: the old generation size
+ */
+function limitArgs(resourceLimits: ResourceLimits | undefined): string[] {
+  const maxOldGenerationSizeMb = resourceLimits?.maxOldGenerationSizeMb;
+  return maxOldGenerationSizeMb !== undefined ? [`--max-old-space-size=${maxOldGenerationSizeMb}`] : [];
+}
+
+/**
+ * Exit code of a process killed by a signal: the conventional 128 + signal number
+ */
+function exitCode(signal: NodeJS.Signals | null): number {
+  return signal ? 128 + os.constants.signals[signal] : 1;
+}
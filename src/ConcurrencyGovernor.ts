@@ -0,0 +1,111 @@
+import {isMainThread} from 'worker_threads';
+import * as os from 'os';
+
+const FREE_SLOTS = 0;
+const CAPACITY = 1;
+
+let globalGovernor: ConcurrencyGovernor | undefined;
+
+/**
+ * Process-wide thread budget shared by every ThreadPool, including pools
+ * created inside worker threads. The slot counter lives in a
+ * SharedArrayBuffer handed to each worker, so nested pools borrow from the
+ * same budget as their parent instead of multiplying it.
+ */
+export class ConcurrencyGovernor {
+  private readonly slots: Int32Array;
+
+  /**
+   * Constructor for ConcurrencyGovernor
+   * @param buffer - Shared slot counter, as returned by getBuffer()
+   */
+  constructor(buffer: SharedArrayBuffer) {
+    this.slots = new Int32Array(buffer);
+  }
+
+  /**
+   * Create a governor with a fresh budget
+   * @param capacity - Number of worker threads allowed to run at once
+   */
+  static create(capacity: number): ConcurrencyGovernor {
+    const governor = new ConcurrencyGovernor(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+    Atomics.store(governor.slots, FREE_SLOTS, capacity);
+    Atomics.store(governor.slots, CAPACITY, capacity);
+    return governor;
+  }
+
+  /**
+   * Get the governor shared by all pools of this process.
+   * The main thread creates it on first use with os.availableParallelism() slots;
+   * worker threads attach to their parent's governor on startup.
+   */
+  static getGlobal(): ConcurrencyGovernor {
+    if (!globalGovernor) {
+      if (!isMainThread) {
+        throw new Error('ConcurrencyGovernor has not been attached in this worker thread');
+      }
+      globalGovernor = ConcurrencyGovernor.create(os.availableParallelism());
+    }
+    return globalGovernor;
+  }
+
+  /**
+   * Attach this thread to a governor created by another thread
+   * @param buffer - Shared slot counter received from the parent thread
+   */
+  static attachGlobal(buffer: SharedArrayBuffer): void {
+    globalGovernor = new ConcurrencyGovernor(buffer);
+  }
+
+  /**
+   * Get the shared slot counter, to be passed to worker threads
+   */
+  getBuffer(): SharedArrayBuffer {
+    return this.slots.buffer as SharedArrayBuffer;
+  }
+
+  /**
+   * Take a slot if one is free
+   * @returns true if a slot was taken, false if the budget is exhausted
+   */
+  tryAcquire(): boolean {
+    let free = Atomics.load(this.slots, FREE_SLOTS);
+    while (free > 0) {
+      const previous = Atomics.compareExchange(this.slots, FREE_SLOTS, free, free - 1);
+      if (previous === free) {
+        return true;
+      }
+      free = previous;
+    }
+    return false;
+  }
+
+  /**
+   * Take a slot unconditionally. Used by top-level pools, which are already
+   * bounded by their own thread count and must not run tasks on the main thread.
+   */
+  acquire(): void {
+    Atomics.sub(this.slots, FREE_SLOTS, 1);
+  }
+
+  /**
+   * Return a slot taken by tryAcquire() or acquire()
+   */
+  release(): void {
+    Atomics.add(this.slots, FREE_SLOTS, 1);
+  }
+
+  /**
+   * Get the number of free slots (negative when top-level pools overdraw the budget)
+   */
+  getAvailable(): number {
+    return Atomics.load(this.slots, FREE_SLOTS);
+  }
+
+  /**
+   * Get the total number of slots
+   */
+  getCapacity(): number {
+    return Atomics.load(this.slots, CAPACITY);
+  }
+}
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import { Observable } from 'rxjs';
+import { ResourceLimits, TransferListItem, Worker } from 'worker_threads';
+
+/**
+ * Script every executor runs in its workers; it speaks the pool's message protocol
+ */
+export const WORKER_SCRIPT = path.join(__dirname, 'worker.js');
+
+/**
+ * A worker started by an Executor, running worker.js. It emits 'message' for every message
+ * from worker.js, 'error' when it fails (with code 'ERR_WORKER_OUT_OF_MEMORY' when it ran
+ * out of memory, or marked by createWorkerLostError() when it was lost through no fault of
+ * its task) and 'exit' with an exit code when it stops.
+ */
+export interface ExecutorWorker extends EventEmitter {
+  /** Whether the worker runs outside this process's thread budget, e.g. on another machine */
+  readonly remote?: boolean;
+  /**
+   * Send a message to worker.js
+   * @param message - The message
+   * @param transferList - Objects to move rather than copy, where the backend supports it
+   */
+  postMessage(message: any, transferList?: readonly TransferListItem[]): void;
+  /** Stop the worker; resolves with its exit code */
+  terminate(): Promise<number>;
+  /** Keep the process alive while the worker is running */
+  ref(): void;
+  /** Let the process exit even though the worker is running */
+  unref(): void;
+}
+
+/**
+ * Settings of a worker to start
+ */
+export interface ExecutorSpawnOptions {
+  /** Data handed to worker.js on startup */
+  workerData: any;
+  /** Resource limits of the worker, if it has any */
+  resourceLimits?: ResourceLimits;
+  /** The pool already runs as many local workers as its thread count, so extra capacity should be used */
+  overflow?: boolean;
+}
+
+/**
+ * Execution backend of a ThreadPool: starts the workers its tasks run on
+ */
+export interface Executor {
+  /** Name of the backend */
+  readonly name: string;
+  /** Whether tasks run on the thread that submits them; pools then never call spawn() */
+  readonly inline: boolean;
+
+  /**
+   * Start a worker running worker.js
+   * @param options - Worker data and resource limits
+   */
+  spawn(options: ExecutorSpawnOptions): ExecutorWorker;
+
+  /**
+   * Get the number of workers the executor can run beyond the pool's thread count,
+   * e.g. on remote agents (default 0)
+   */
+  getExtraCapacity?(): number;
+
+  /**
+   * Get an Observable emitting the extra capacity whenever it changes
+   */
+  getCapacityChanges?(): Observable<number>;
+}
+
+/**
+ * Create the error an ExecutorWorker emits when it is lost through no fault of its task,
+ * e.g. when the connection to its machine drops. The task is then run again on another
+ * worker, without counting against its retry policy.
+ * @param message - Description of the loss
+ */
+export function createWorkerLostError(message: string): Error {
+  return Object.assign(new Error(message), {workerLost: true});
+}
+
+/**
+ * Check whether an error reports a lost worker
+ * @param error - Error emitted by an ExecutorWorker
+ */
+export function isWorkerLost(error: any): boolean {
+  return error?.workerLost === true;
+}
+
+/**
+ * Runs tasks on worker_threads: the default backend
+ */
+export class WorkerThreadExecutor implements Executor {
+  readonly name = 'worker-threads';
+  readonly inline = false;
+
+  spawn(options: ExecutorSpawnOptions): ExecutorWorker {
+    return new Worker(WORKER_SCRIPT, {workerData: options.workerData, resourceLimits: options.resourceLimits});
+  }
+}
+
+/**
+ * Runs tasks on the thread that submits them, calling their thread functions directly, so
+ * breakpoints set in them are hit. Meant for debugging: tasks share the heap of the calling
+ * thread and block it while they compute.
+ */
+export class InlineExecutor implements Executor {
+  readonly name = 'inline';
+  readonly inline = true;
+
+  spawn(): ExecutorWorker {
+    throw new Error('InlineExecutor runs tasks inline and starts no workers');
+  }
+}
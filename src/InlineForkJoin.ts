@@ -0,0 +1,38 @@
+import {defer, lastValueFrom, Observable, of, toArray} from 'rxjs';
+import {ForkJoin, ThreadFunc} from './AbstractThreadTask';
+
+/**
+ * ForkJoin for tasks running inline on the current thread.
+ * Children are run on the same thread when join() is called.
+ */
+export class InlineForkJoin<T = any, V = any> implements ForkJoin<T, V> {
+  private readonly threadFunc: ThreadFunc<T, Observable<T>, V, Observable<V>>;
+  private readonly allocateThreadId: () => number;
+  private forked: T[];
+
+  /**
+   * Constructor for InlineForkJoin
+   * @param threadFunc - The thread function the children run
+   * @param allocateThreadId - Supplies a thread identifier for each child
+   */
+  constructor(threadFunc: ThreadFunc<T, Observable<T>, V, Observable<V>>, allocateThreadId: () => number) {
+    this.threadFunc = threadFunc;
+    this.allocateThreadId = allocateThreadId;
+    this.forked = [];
+  }
+
+  fork(subInput: T): void {
+    this.forked.push(subInput);
+  }
+
+  join(): Promise<V[]> {
+    const inputs = this.forked;
+    this.forked = [];
+    return Promise.all(inputs.map(input => {
+      const childForkJoin = new InlineForkJoin(this.threadFunc, this.allocateThreadId);
+      return lastValueFrom(
+        defer(() => this.threadFunc(of(input), this.allocateThreadId(), childForkJoin)).pipe(toArray())
+      );
+    })).then(valueArrays => valueArrays.flat());
+  }
+}
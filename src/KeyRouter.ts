@@ -0,0 +1,318 @@
+import { Observable, Subject } from 'rxjs';
+import { ActorBinding, ActorTask } from './ActorTask';
+import { WorkerPool, WorkerRequest } from './WorkerPool';
+
+// Points every shard places on the hash ring; more points spread the keys more evenly
+const VIRTUAL_NODES = 64;
+
+// Size of the hash space
+const RING_SIZE = 2 ** 32;
+
+/**
+ * A change of the number of shards the routing keys are spread over, made by ThreadPool.rebalance()
+ */
+export interface RebalanceEvent {
+  previousShards: number;
+  shards: number;
+  /** Share of all possible keys now routed to another shard, from 0 to 1 */
+  movedKeyFraction: number;
+  /** Keys of the actors routed to another shard; their state moved with them, unless their worker was lost */
+  movedActors: string[];
+  /** Time spent waiting for keyed tasks to finish and moving actor states, in milliseconds */
+  durationMs: number;
+  /** Wall clock time the rebalance finished, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * A point of a shard on the hash ring
+ */
+interface RingPoint {
+  hash: number;
+  shard: number;
+}
+
+/**
+ * KeyRouter sends tasks with a routing key to the worker of the key's shard. Keys are mapped
+ * to shards by consistent hashing, so a change of the number of shards only moves the keys of
+ * the shards added or removed. The number of shards only changes through rebalance(), which
+ * waits for the routed tasks to finish, holding back new ones, and moves the state of the
+ * actors whose key changes shard.
+ */
+export class KeyRouter {
+  private readonly workerPool: WorkerPool;
+  private readonly rebalances: Subject<RebalanceEvent>;
+  // Shard whose worker holds the state of each actor, by key
+  private readonly actorShards: Map<string, number>;
+  // States taken from the previous worker of their actor, delivered with the actor's next task
+  private readonly migratedStates: Map<string, any>;
+  // Thread ids of the tasks routed to a shard that have not finished
+  private readonly routedTasks: Set<number>;
+  private ring: RingPoint[];
+  private shards: number;
+  private heldRequests: (() => void)[] | undefined;
+  private onSettled: (() => void) | undefined;
+  private lastRebalance: Promise<unknown>;
+  private nextExportId: number = 1;
+
+  /**
+   * Constructor for KeyRouter
+   * @param workerPool - Owns the workers the shards are bound to
+   * @param shards - Number of shards
+   * @throws Error if the number of shards is not a positive integer
+   */
+  constructor(workerPool: WorkerPool, shards: number) {
+    validateShards(shards);
+    this.workerPool = workerPool;
+    this.rebalances = new Subject();
+    this.actorShards = new Map();
+    this.migratedStates = new Map();
+    this.routedTasks = new Set();
+    this.ring = createRing(shards);
+    this.shards = shards;
+    this.lastRebalance = Promise.resolve();
+  }
+
+  /**
+   * Get the number of shards
+   */
+  getShardCount(): number {
+    return this.shards;
+  }
+
+  /**
+   * Get the shard a key is routed to
+   * @param key - The routing key
+   */
+  getShard(key: string): number {
+    return findShard(this.ring, hashKey(key));
+  }
+
+  /**
+   * Get an Observable emitting every completed rebalance.
+   * The stream is hot: rebalances completed before subscribing are not replayed.
+   */
+  getRebalances(): Observable<RebalanceEvent> {
+    return this.rebalances.asObservable();
+  }
+
+  /**
+   * Request the worker of a key's shard for a task. While a rebalance is in progress,
+   * the request is held until it is done.
+   * @param threadId - Thread id of the task, to pass to settle() once it has finished
+   * @param key - The task's routing key
+   * @param request - Callback receiving the worker
+   * @returns Function that withdraws the request if it has not been served yet
+   */
+  acquire(threadId: number, key: string, request: WorkerRequest): () => void {
+    if (!this.heldRequests) {
+      this.routedTasks.add(threadId);
+      return this.workerPool.acquireShard(this.getShard(key), request);
+    }
+
+    let cancel: (() => void) | undefined;
+    const resume = () => cancel = this.acquire(threadId, key, request);
+    this.heldRequests.push(resume);
+    return () => {
+      this.heldRequests = this.heldRequests?.filter(held => held !== resume);
+      cancel?.();
+    };
+  }
+
+  /**
+   * Account for a task that has finished or was withdrawn
+   * @param threadId - Thread id of the task
+   */
+  settle(threadId: number): void {
+    if (this.routedTasks.delete(threadId) && this.routedTasks.size === 0 && this.onSettled) {
+      this.onSettled();
+      this.onSettled = undefined;
+    }
+  }
+
+  /**
+   * Get the actor binding of an actor task dispatched to its shard's worker, with the state
+   * a rebalance moved, if any
+   * @param task - The actor task
+   */
+  bindActor(task: ActorTask): ActorBinding {
+    const key = task.getActorKey();
+    this.actorShards.set(key, this.getShard(key));
+    const binding: ActorBinding = {key, initialState: task.getInitialState()};
+    if (this.migratedStates.has(key)) {
+      binding.migrated = {state: this.migratedStates.get(key)};
+      this.migratedStates.delete(key);
+    }
+    return binding;
+  }
+
+  /**
+   * Spread the keys over a new number of shards. Rebalances run one after the other.
+   * @param shards - The new number of shards
+   * @returns Promise of the rebalance, also emitted by getRebalances()
+   * @throws Error if the number of shards is not a positive integer
+   */
+  rebalance(shards: number): Promise<RebalanceEvent> {
+    validateShards(shards);
+    const rebalance = this.lastRebalance.then(() => this.resize(shards));
+    this.lastRebalance = rebalance.catch(() => undefined);
+    return rebalance;
+  }
+
+  private async resize(shards: number): Promise<RebalanceEvent> {
+    const startedAt = performance.now();
+    this.heldRequests = [];
+    let event: RebalanceEvent;
+    try {
+      await this.whenSettled();
+
+      const ring = createRing(shards);
+      const movedActors: string[] = [];
+      const leaving = new Map<number, string[]>();
+      for (const [key, shard] of this.actorShards) {
+        if (findShard(ring, hashKey(key)) !== shard) {
+          movedActors.push(key);
+          leaving.set(shard, [...(leaving.get(shard) ?? []), key]);
+        }
+      }
+      const exported = await Promise.all([...leaving].map(([shard, keys]) => this.exportStates(shard, keys)));
+      movedActors.forEach(key => this.actorShards.delete(key));
+      exported.flat().forEach(([key, state]) => this.migratedStates.set(key, state));
+
+      event = {
+        previousShards: this.shards,
+        shards,
+        movedKeyFraction: movedFraction(this.ring, ring),
+        movedActors,
+        durationMs: performance.now() - startedAt,
+        timestamp: Date.now()
+      };
+      this.ring = ring;
+      this.shards = shards;
+      this.workerPool.unbindShards(shards);
+    } finally {
+      const held = this.heldRequests;
+      this.heldRequests = undefined;
+      held.forEach(resume => resume());
+    }
+
+    this.rebalances.next(event);
+    return event;
+  }
+
+  /**
+   * Wait until every routed task has finished
+   */
+  private whenSettled(): Promise<void> {
+    if (this.routedTasks.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.onSettled = resolve);
+  }
+
+  /**
+   * Take the states of actors from the worker of their shard
+   * @returns States found, by key; none if the shard has no worker
+   */
+  private exportStates(shard: number, keys: string[]): Promise<[string, any][]> {
+    const pooledWorker = this.workerPool.getShardWorker(shard);
+    if (!pooledWorker) {
+      return Promise.resolve([]);
+    }
+
+    const worker = pooledWorker.worker;
+    const exportId = this.nextExportId++;
+    return new Promise(resolve => {
+      // Idle workers do not keep the process alive, so wait for the answer with a timer that does
+      const keepAlive = setInterval(() => {}, 60000);
+      const done = (states: [string, any][]) => {
+        clearInterval(keepAlive);
+        worker.off('message', onMessage);
+        worker.off('exit', onExit);
+        resolve(states);
+      };
+      const onMessage = (message: any) => {
+        if (message.type === 'actor-states' && message.exportId === exportId) {
+          done(message.states);
+        }
+      };
+      const onExit = () => done([]);
+      worker.on('message', onMessage);
+      worker.on('exit', onExit);
+      worker.postMessage({type: 'actor-export', exportId, keys});
+    });
+  }
+}
+
+/**
+ * Check a number of shards
+ */
+function validateShards(shards: number): void {
+  if (!Number.isInteger(shards) || shards < 1) {
+    throw new Error(`Number of shards must be a positive integer, got ${shards}`);
+  }
+}
+
+/**
+ * Hash a string to 32 bits: FNV-1a, finalized like MurmurHash3 so similar strings land far apart
+ */
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Place the points of every shard on a ring, sorted by hash. A shard's points do not depend
+ * on the number of shards, so resizing only adds or removes the points of the shards beyond it.
+ */
+function createRing(shards: number): RingPoint[] {
+  const ring: RingPoint[] = [];
+  for (let shard = 0; shard < shards; shard++) {
+    for (let point = 0; point < VIRTUAL_NODES; point++) {
+      ring.push({hash: hashKey(`shard-${shard}#${point}`), shard});
+    }
+  }
+  return ring.sort((a, b) => a.hash - b.hash);
+}
+
+/**
+ * Find the shard owning a hash: the shard of the first point at or after it, wrapping around
+ */
+function findShard(ring: RingPoint[], hash: number): number {
+  let low = 0;
+  let high = ring.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (ring[middle].hash < hash) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return ring[low === ring.length ? 0 : low].shard;
+}
+
+/**
+ * Measure the share of the hash space owned by another shard on one ring than on the other
+ */
+function movedFraction(before: RingPoint[], after: RingPoint[]): number {
+  const bounds = [...new Set([...before, ...after].map(point => point.hash))].sort((a, b) => a - b);
+  let moved = 0;
+  bounds.forEach((bound, index) => {
+    // The arc ending at a bound, wrapping around for the first one, belongs to the bound's owner
+    const start = index > 0 ? bounds[index - 1] : bounds[bounds.length - 1] - RING_SIZE;
+    if (findShard(before, bound) !== findShard(after, bound)) {
+      moved += bound - start;
+    }
+  });
+  return moved / RING_SIZE;
+}
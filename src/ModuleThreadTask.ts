@@ -0,0 +1,68 @@
+import {Observable} from 'rxjs';
+import * as path from 'path';
+import {AbstractThreadTask, ThreadFunc, ThreadFuncSource, ThreadTaskOptions} from './AbstractThreadTask';
+
+/**
+ * Thread task whose thread function is an exported function of a module.
+ * The worker require()s (or import()s, for ES modules) the module directly instead of
+ * rebuilding the function from its source, so the function may use closures and imports.
+ * @template T - Input observable value type
+ * @template I - Input observable type
+ * @template V - Output observable value type
+ * @template R - Output observable type
+ */
+export class ModuleThreadTask<
+  T = any,
+  I extends Observable<T> = Observable<any>,
+  V = any,
+  R extends Observable<V> = Observable<any>
+> extends AbstractThreadTask<T, I, V, R> {
+  private readonly modulePath: string;
+  private readonly exportName: string;
+
+  /**
+   * Constructor for ModuleThreadTask
+   * @param modulePath - Absolute path or package name of the module; relative paths are resolved against process.cwd()
+   * @param exportName - Name of the exported thread function
+   * @param input - The input observable to pass to the thread function
+   * @param options - Optional timeout and cancellation signal
+   */
+  constructor(modulePath: string, exportName: string, input: I, options?: ThreadTaskOptions) {
+    const resolvedPath = modulePath.startsWith('.') ? path.resolve(modulePath) : modulePath;
+
+    // Loaded lazily, only when the task runs on the current thread
+    const threadFunc: ThreadFunc<T, I, V, R> = (input, threadId, forkJoin) => {
+      const exported = require(resolvedPath)[exportName];
+      if (typeof exported !== 'function') {
+        throw new Error(`Export "${exportName}" of module ${resolvedPath} is not a function`);
+      }
+      return exported(input, threadId, forkJoin);
+    };
+
+    super(threadFunc, input, options);
+    this.modulePath = resolvedPath;
+    this.exportName = exportName;
+  }
+
+  /**
+   * Get the resolved module path
+   */
+  getModulePath(): string {
+    return this.modulePath;
+  }
+
+  /**
+   * Get the name of the exported thread function
+   */
+  getExportName(): string {
+    return this.exportName;
+  }
+
+  getName(): string {
+    return this.options.name ?? this.exportName;
+  }
+
+  getThreadFuncSource(): ThreadFuncSource {
+    return {kind: 'module', modulePath: this.modulePath, exportName: this.exportName};
+  }
+}
@@ -0,0 +1,172 @@
+import type { Context, Span, Tracer } from '@opentelemetry/api';
+import { Subscription } from 'rxjs';
+import type { ThreadPool } from './ThreadPool';
+import { TaskFinishedEvent, TaskStartedEvent, ThreadPoolEvent } from './PoolMetrics';
+
+type OpenTelemetryApi = typeof import('@opentelemetry/api');
+
+// Name of the tracer obtained from the global tracer provider
+const TRACER_NAME = '@krystalmonolith/rx-thread-pool';
+
+/**
+ * Options for an OpenTelemetryExporter
+ */
+export interface OpenTelemetryExporterOptions {
+  /** Tracer creating the spans (default: a tracer of the global tracer provider) */
+  tracer?: Tracer;
+}
+
+/**
+ * OpenTelemetryExporter records an OpenTelemetry span for every attempt of every task
+ * a ThreadPool runs. A task's span is a child of the context that was active when the
+ * task was queued. Spans of tasks run by pools nested inside a worker are children of
+ * the span of the task that created the pool: nested pools relay their events across
+ * the worker boundary, so a recursive computation shows up as one trace tree. Children
+ * forked with forkJoin.fork() get spans that are children of the span of the task that
+ * forked them. All spans are recorded on the thread that created the exporter.
+ *
+ * Requires the optional peer dependency @opentelemetry/api, and an OpenTelemetry SDK
+ * registered to export the spans.
+ */
+export class OpenTelemetryExporter {
+  private readonly api: OpenTelemetryApi;
+  private readonly tracer: Tracer;
+  private readonly subscription: Subscription;
+  // Context active when each top-level task was queued, kept until its final attempt
+  private readonly queuedContexts: Map<string, Context>;
+  // Spans of the running attempts
+  private readonly spans: Map<string, Span>;
+  // Spans of the running attempts by task id, to parent the children they fork
+  private readonly taskSpans: Map<string, Span>;
+
+  /**
+   * Constructor for OpenTelemetryExporter
+   * @param pool - The pool whose tasks are traced
+   * @param options - The tracer to use
+   * @throws Error if @opentelemetry/api is not installed
+   */
+  constructor(pool: ThreadPool, options: OpenTelemetryExporterOptions = {}) {
+    this.api = loadApi();
+    this.tracer = options.tracer ?? this.api.trace.getTracer(TRACER_NAME);
+    this.queuedContexts = new Map();
+    this.spans = new Map();
+    this.taskSpans = new Map();
+    this.subscription = pool.getEvents().subscribe(event => this.handleEvent(event));
+  }
+
+  /**
+   * Stop tracing the pool. Spans of attempts still running are ended right away.
+   */
+  stop(): void {
+    this.subscription.unsubscribe();
+    for (const [, span] of this.spans) {
+      span.end();
+    }
+    this.spans.clear();
+    this.taskSpans.clear();
+    this.queuedContexts.clear();
+  }
+
+  private handleEvent(event: ThreadPoolEvent): void {
+    const key = spanKey(event);
+    switch (event.type) {
+      case 'queued':
+        // Nested and forked tasks are parented on the task that queued or forked them instead
+        if (!event.scope && event.parentTaskId === undefined) {
+          this.queuedContexts.set(key, this.api.context.active());
+        }
+        break;
+      case 'started': {
+        const span = this.startSpan(event, event.timestamp);
+        this.spans.set(key, span);
+        this.taskSpans.set(taskKey(event), span);
+        break;
+      }
+      case 'finished':
+      case 'failed':
+        this.endSpan(key, event);
+        break;
+    }
+  }
+
+  private startSpan(event: TaskStartedEvent | TaskFinishedEvent, startTime: number): Span {
+    const span = this.tracer.startSpan(`task ${event.taskName}`, {
+      startTime,
+      attributes: {
+        'rx_thread_pool.thread_id': event.threadId,
+        'rx_thread_pool.task_id': event.taskId,
+        'rx_thread_pool.task': event.taskName,
+        'rx_thread_pool.queue': event.queueName,
+        'rx_thread_pool.attempt': event.attempt,
+        'rx_thread_pool.wait_time_ms': event.waitTimeMs
+      }
+    }, this.getParentContext(event));
+    if (event.workerId !== undefined) {
+      span.setAttribute('rx_thread_pool.worker_id', event.workerId);
+    }
+    return span;
+  }
+
+  private endSpan(key: string, event: TaskFinishedEvent): void {
+    // Attempts stopped before they started get a span covering their wait
+    const span = this.spans.get(key) ?? this.startSpan(event, event.timestamp - event.waitTimeMs);
+    this.spans.delete(key);
+    this.taskSpans.delete(taskKey(event));
+    if (event.final) {
+      this.queuedContexts.delete(key);
+    }
+
+    span.setAttribute('rx_thread_pool.status', event.status);
+    span.setAttribute('rx_thread_pool.run_time_ms', event.runTimeMs);
+    if (event.inputBytes !== undefined) {
+      span.setAttribute('rx_thread_pool.input_bytes', event.inputBytes);
+    }
+    if (event.outputBytes !== undefined) {
+      span.setAttribute('rx_thread_pool.output_bytes', event.outputBytes);
+    }
+    if (event.type === 'failed') {
+      span.setStatus({code: this.api.SpanStatusCode.ERROR, message: event.status});
+    }
+    span.end(event.timestamp);
+  }
+
+  /**
+   * Get the parent of an attempt's span: the span of the forking task for forked children,
+   * the span of the enclosing task for nested tasks, otherwise the context active when the
+   * task was queued
+   */
+  private getParentContext(event: ThreadPoolEvent): Context {
+    const {context, trace} = this.api;
+    if (event.parentTaskId !== undefined) {
+      const parentSpan = this.taskSpans.get(taskKey({...event, taskId: event.parentTaskId}));
+      return parentSpan ? trace.setSpan(context.active(), parentSpan) : context.active();
+    }
+    if (event.scope) {
+      const parentSpan = this.spans.get(event.scope.join('/'));
+      return parentSpan ? trace.setSpan(context.active(), parentSpan) : context.active();
+    }
+    return this.queuedContexts.get(spanKey(event)) ?? context.active();
+  }
+}
+
+/**
+ * Identify a task across the pool and the pools nested in its workers
+ */
+function spanKey(event: ThreadPoolEvent): string {
+  return [...(event.scope ?? []), event.threadId].join('/');
+}
+
+/**
+ * Identify a task by its id, which is unique within the pool that emitted its events
+ */
+function taskKey(event: ThreadPoolEvent): string {
+  return [...(event.scope ?? []), event.taskId].join('/');
+}
+
+function loadApi(): OpenTelemetryApi {
+  try {
+    return require('@opentelemetry/api');
+  } catch {
+    throw new Error('OpenTelemetryExporter requires the @opentelemetry/api package');
+  }
+}
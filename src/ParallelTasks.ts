@@ -0,0 +1,88 @@
+import { map, Observable, of } from 'rxjs';
+import { AbstractThreadTask, ThreadFunc, ThreadFuncSource, ThreadTaskOptions } from './AbstractThreadTask';
+
+/**
+ * Thread task whose thread function is built by a factory from functions passed to it.
+ * The factory and the functions are serialized together, so all of them must be
+ * self-contained like any thread function.
+ * @template T - Input value type
+ * @template V - Output value type
+ */
+export class BoundThreadTask<T = any, V = any> extends AbstractThreadTask<T, Observable<T>, V, Observable<V>> {
+  private readonly functionString: string;
+
+  /**
+   * Constructor for BoundThreadTask
+   * @param factory - Builds the thread function from the functions
+   * @param functions - The functions handed to the factory
+   * @param input - The input observable to pass to the thread function
+   * @param options - Optional task settings
+   */
+  constructor(
+    factory: (...functions: any[]) => ThreadFunc<T, Observable<T>, V, Observable<V>>,
+    functions: Function[],
+    input: Observable<T>,
+    options?: ThreadTaskOptions
+  ) {
+    super(factory(...functions), input, options);
+    this.functionString = `(${factory.toString()})(${functions.map(fn => `(${fn.toString()})`).join(', ')})`;
+  }
+
+  getThreadFuncSource(): ThreadFuncSource {
+    return {kind: 'function', functionString: this.functionString};
+  }
+}
+
+// Thread function factories; they only use identifiers available in the worker context
+const mapChunks = (mapper: (value: any) => any) =>
+  (input: Observable<any[]>) => input.pipe(map(chunk => chunk.map(value => mapper(value))));
+
+const reduceChunks = (reducer: (accumulator: any, value: any) => any) =>
+  (input: Observable<[any, any[]]>) => input.pipe(map(([initial, chunk]) => chunk.reduce(reducer, initial)));
+
+/**
+ * Create a task that maps every value of a chunk, emitting the mapped chunk
+ * @param mapper - Self-contained function applied to every value
+ * @param chunk - The values
+ * @param options - Optional task settings
+ */
+export function createMapTask<T, V>(
+  mapper: (value: T) => V,
+  chunk: T[],
+  options: ThreadTaskOptions
+): BoundThreadTask<T[], V[]> {
+  return new BoundThreadTask(mapChunks, [mapper], of(chunk), {name: 'map', ...options});
+}
+
+/**
+ * Create a task that reduces a chunk, emitting the result
+ * @param reducer - Self-contained function folding a value into the accumulator
+ * @param initial - Initial accumulator of the chunk
+ * @param chunk - The values
+ * @param options - Optional task settings
+ */
+export function createReduceTask<T, A>(
+  reducer: (accumulator: A, value: T) => A,
+  initial: A,
+  chunk: T[],
+  options: ThreadTaskOptions
+): BoundThreadTask<[A, T[]], A> {
+  return new BoundThreadTask(reduceChunks, [reducer], of<[A, T[]]>([initial, chunk]), {name: 'reduce', ...options});
+}
+
+/**
+ * Split values into chunks
+ * @param values - The values
+ * @param chunkSize - Number of values per chunk; the last chunk may be smaller
+ * @throws Error if chunkSize is not a positive integer
+ */
+export function toChunks<T>(values: T[], chunkSize: number): T[][] {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`chunkSize must be a positive integer, got ${chunkSize}`);
+  }
+  const chunks: T[][] = [];
+  for (let start = 0; start < values.length; start += chunkSize) {
+    chunks.push(values.slice(start, start + chunkSize));
+  }
+  return chunks;
+}
@@ -0,0 +1,232 @@
+import * as v8 from 'v8';
+import type { ThreadStatus } from './ThreadPool';
+
+/**
+ * Fields shared by every task event
+ */
+interface TaskEventBase {
+  threadId: number;
+  /** Globally unique, hierarchical identifier of the task */
+  taskId: string;
+  /** For children forked with forkJoin.fork(): the id of the task that forked them */
+  parentTaskId?: string;
+  taskName: string;
+  queueName: string;
+  /** Wall clock time of the event, in milliseconds since the epoch */
+  timestamp: number;
+  /**
+   * For events relayed from a pool nested inside a worker: the thread ids of the enclosing
+   * tasks, outermost first. threadId is only unique together with the scope.
+   */
+  scope?: number[];
+}
+
+/**
+ * A task was handed to the pool's scheduler
+ */
+export interface TaskQueuedEvent extends TaskEventBase {
+  type: 'queued';
+}
+
+/**
+ * An attempt of a task got a thread and started running
+ */
+export interface TaskStartedEvent extends TaskEventBase {
+  type: 'started';
+  attempt: number;
+  /** Id of the pooled worker running the task; undefined when a nested pool runs it inline */
+  workerId?: number;
+  /** Time spent waiting for a thread: since the task was queued, or since the previous attempt's backoff */
+  waitTimeMs: number;
+}
+
+/**
+ * An attempt of a task finished: 'finished' when it completed, 'failed' for any other status
+ */
+export interface TaskFinishedEvent extends TaskEventBase {
+  type: 'finished' | 'failed';
+  attempt: number;
+  status: ThreadStatus;
+  /** false when the attempt failed and the task will be retried */
+  final: boolean;
+  /** Whether the attempt got a thread before it finished */
+  started: boolean;
+  workerId?: number;
+  waitTimeMs: number;
+  /** Time spent running; 0 if the attempt never started */
+  runTimeMs: number;
+  /** Serialized size of the input values sent to the worker, when payloads are measured */
+  inputBytes?: number;
+  /** Serialized size of the output values received from the worker, when payloads are measured */
+  outputBytes?: number;
+}
+
+/**
+ * Instrumentation event emitted by ThreadPool.getEvents()
+ */
+export type ThreadPoolEvent = TaskQueuedEvent | TaskStartedEvent | TaskFinishedEvent;
+
+/**
+ * Default upper bounds, in milliseconds, of the latency histogram buckets
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+/**
+ * Snapshot of a histogram. counts[i] is the number of observations no greater than
+ * bounds[i] and greater than bounds[i - 1]; the last count holds observations above every bound.
+ */
+export interface HistogramSnapshot {
+  bounds: number[];
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Fixed-bucket histogram of observed values
+ */
+export class Histogram {
+  private readonly bounds: number[];
+  private readonly counts: number[];
+  private sum: number = 0;
+  private count: number = 0;
+
+  /**
+   * Constructor for Histogram
+   * @param bounds - Ascending upper bounds of the buckets
+   */
+  constructor(bounds: number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+    this.bounds = [...bounds];
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Record a value
+   * @param value - The observed value
+   */
+  observe(value: number): void {
+    const index = this.bounds.findIndex(bound => value <= bound);
+    this.counts[index < 0 ? this.bounds.length : index]++;
+    this.sum += value;
+    this.count++;
+  }
+
+  /**
+   * Get a copy of the histogram's state
+   */
+  getSnapshot(): HistogramSnapshot {
+    return {bounds: [...this.bounds], counts: [...this.counts], sum: this.sum, count: this.count};
+  }
+}
+
+/**
+ * Aggregate metrics of a ThreadPool
+ */
+export interface PoolMetricsSnapshot {
+  /** Tasks handed to the scheduler */
+  queued: number;
+  /** Attempts that started running */
+  started: number;
+  /** Attempts that completed */
+  finished: number;
+  /** Attempts that did not complete, by status */
+  failed: Partial<Record<ThreadStatus, number>>;
+  /** Attempts running right now */
+  running: number;
+  /** Serialized bytes sent to and received from workers, when payloads are measured */
+  inputBytes: number;
+  outputBytes: number;
+  /** Time attempts waited for a thread */
+  waitTimeMs: HistogramSnapshot;
+  /** Time attempts spent running */
+  runTimeMs: HistogramSnapshot;
+}
+
+/**
+ * PoolMetrics aggregates a pool's events into counters and latency histograms
+ */
+export class PoolMetrics {
+  private queued: number = 0;
+  private started: number = 0;
+  private finished: number = 0;
+  private running: number = 0;
+  private inputBytes: number = 0;
+  private outputBytes: number = 0;
+  private readonly failed: Partial<Record<ThreadStatus, number>>;
+  private readonly waitTime: Histogram;
+  private readonly runTime: Histogram;
+
+  /**
+   * Constructor for PoolMetrics
+   * @param latencyBucketsMs - Upper bounds of the latency histogram buckets
+   */
+  constructor(latencyBucketsMs: number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+    this.failed = {};
+    this.waitTime = new Histogram(latencyBucketsMs);
+    this.runTime = new Histogram(latencyBucketsMs);
+  }
+
+  /**
+   * Account for an event
+   * @param event - Event emitted by the pool
+   */
+  record(event: ThreadPoolEvent): void {
+    switch (event.type) {
+      case 'queued':
+        this.queued++;
+        break;
+      case 'started':
+        this.started++;
+        this.running++;
+        this.waitTime.observe(event.waitTimeMs);
+        break;
+      case 'finished':
+      case 'failed':
+        if (event.type === 'finished') {
+          this.finished++;
+        } else {
+          this.failed[event.status] = (this.failed[event.status] ?? 0) + 1;
+        }
+        // Attempts stopped before they started were never counted as running
+        if (event.started) {
+          this.running--;
+          this.runTime.observe(event.runTimeMs);
+        } else {
+          this.waitTime.observe(event.waitTimeMs);
+        }
+        this.inputBytes += event.inputBytes ?? 0;
+        this.outputBytes += event.outputBytes ?? 0;
+        break;
+    }
+  }
+
+  /**
+   * Get a copy of the current metrics
+   */
+  getSnapshot(): PoolMetricsSnapshot {
+    return {
+      queued: this.queued,
+      started: this.started,
+      finished: this.finished,
+      failed: {...this.failed},
+      running: this.running,
+      inputBytes: this.inputBytes,
+      outputBytes: this.outputBytes,
+      waitTimeMs: this.waitTime.getSnapshot(),
+      runTimeMs: this.runTime.getSnapshot()
+    };
+  }
+}
+
+/**
+ * Estimate the bytes a value occupies when cloned to another thread
+ * @param value - The value being posted
+ * @returns Serialized size, or 0 for values that only transfer or share memory
+ */
+export function measurePayload(value: any): number {
+  try {
+    return v8.serialize(value).byteLength;
+  } catch {
+    return 0;
+  }
+}
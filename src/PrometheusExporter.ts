@@ -0,0 +1,221 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { ThreadPool } from './ThreadPool';
+import { HistogramSnapshot } from './PoolMetrics';
+
+/**
+ * Options for a PrometheusExporter
+ */
+export interface PrometheusExporterOptions {
+  /** Port to listen on (default 9464); 0 picks a free port */
+  port?: number;
+  /** Interface to listen on (default '127.0.0.1') */
+  host?: string;
+  /** Path the metrics are served on (default '/metrics') */
+  path?: string;
+  /** Prefix of every metric name (default 'rx_thread_pool_') */
+  prefix?: string;
+}
+
+/**
+ * Samples of one metric, with the lines describing it
+ */
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples: string[];
+}
+
+/**
+ * PrometheusExporter serves the metrics of registered ThreadPools in the Prometheus
+ * text exposition format on a local HTTP endpoint. Every sample carries a `pool`
+ * label with the name the pool was registered under. Latencies are reported in seconds.
+ */
+export class PrometheusExporter {
+  private readonly pools: Map<string, ThreadPool>;
+  private readonly port: number;
+  private readonly host: string;
+  private readonly path: string;
+  private readonly prefix: string;
+  private server: http.Server | undefined;
+
+  /**
+   * Constructor for PrometheusExporter
+   * @param options - Where to listen and how to name the metrics
+   */
+  constructor(options: PrometheusExporterOptions = {}) {
+    this.pools = new Map();
+    this.port = options.port ?? 9464;
+    this.host = options.host ?? '127.0.0.1';
+    this.path = options.path ?? '/metrics';
+    this.prefix = options.prefix ?? 'rx_thread_pool_';
+  }
+
+  /**
+   * Export the metrics of a pool
+   * @param name - Value of the pool's `pool` label
+   * @param pool - The pool
+   * @returns this, for chaining
+   * @throws Error if another pool is registered under the name
+   */
+  register(name: string, pool: ThreadPool): this {
+    if (this.pools.has(name)) {
+      throw new Error(`A pool named "${name}" is already registered`);
+    }
+    this.pools.set(name, pool);
+    return this;
+  }
+
+  /**
+   * Stop exporting the metrics of a pool
+   * @param name - Name the pool was registered under
+   * @returns true if a pool was registered under the name
+   */
+  unregister(name: string): boolean {
+    return this.pools.delete(name);
+  }
+
+  /**
+   * Start serving the metrics
+   * @returns Promise resolved with the port listened on
+   * @throws Error if the exporter was already started
+   */
+  start(): Promise<number> {
+    if (this.server) {
+      throw new Error('PrometheusExporter has already been started');
+    }
+
+    const server = http.createServer((request, response) => {
+      const requestPath = (request.url ?? '').split('?')[0];
+      if (requestPath !== this.path || (request.method !== 'GET' && request.method !== 'HEAD')) {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, {'Content-Type': 'text/plain; version=0.0.4; charset=utf-8'});
+      response.end(request.method === 'GET' ? this.render() : undefined);
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /**
+   * Stop serving the metrics
+   * @returns Promise resolved once the server is closed
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      // Keep-alive connections of scrapers would hold the server open (Node 18.2+)
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Render the metrics of every registered pool in the Prometheus text format
+   */
+  render(): string {
+    const families: MetricFamily[] = [
+      this.family('tasks_queued_total', 'Tasks handed to the scheduler', 'counter'),
+      this.family('attempts_started_total', 'Task attempts that started running', 'counter'),
+      this.family('attempts_finished_total', 'Task attempts that finished, by status', 'counter'),
+      this.family('attempts_running', 'Task attempts running', 'gauge'),
+      this.family('threads_max', 'Maximum number of threads running tasks at once', 'gauge'),
+      this.family('workers', 'Live pooled workers, by state', 'gauge'),
+      this.family('input_bytes_total', 'Serialized bytes of input sent to workers', 'counter'),
+      this.family('output_bytes_total', 'Serialized bytes of output received from workers', 'counter'),
+      this.family('attempt_wait_seconds', 'Time task attempts waited for a thread', 'histogram'),
+      this.family('attempt_run_seconds', 'Time task attempts spent running', 'histogram')
+    ];
+    const [queued, started, finished, running, threads, workers, inputBytes, outputBytes, waitTime, runTime] = families;
+
+    for (const [name, pool] of this.pools) {
+      const metrics = pool.getMetrics();
+      const labels = {pool: name};
+      const activeWorkers = pool.getActiveWorkerCount();
+
+      queued.samples.push(sample(queued.name, labels, metrics.queued));
+      started.samples.push(sample(started.name, labels, metrics.started));
+      finished.samples.push(sample(finished.name, {...labels, status: 'completed'}, metrics.finished));
+      for (const [status, count] of Object.entries(metrics.failed)) {
+        finished.samples.push(sample(finished.name, {...labels, status}, count!));
+      }
+      running.samples.push(sample(running.name, labels, metrics.running));
+      threads.samples.push(sample(threads.name, labels, pool.getMaxThreads()));
+      workers.samples.push(sample(workers.name, {...labels, state: 'busy'}, activeWorkers));
+      workers.samples.push(sample(
+        workers.name,
+        {...labels, state: 'idle'},
+        Math.max(0, pool.getPooledWorkerCount() - activeWorkers)
+      ));
+      inputBytes.samples.push(sample(inputBytes.name, labels, metrics.inputBytes));
+      outputBytes.samples.push(sample(outputBytes.name, labels, metrics.outputBytes));
+      waitTime.samples.push(...histogramSamples(waitTime.name, labels, metrics.waitTimeMs));
+      runTime.samples.push(...histogramSamples(runTime.name, labels, metrics.runTimeMs));
+    }
+
+    return families
+      .map(family => [
+        `# HELP ${family.name} ${family.help}`,
+        `# TYPE ${family.name} ${family.type}`,
+        ...family.samples
+      ].join('\n'))
+      .join('\n') + '\n';
+  }
+
+  private family(name: string, help: string, type: MetricFamily['type']): MetricFamily {
+    return {name: this.prefix + name, help, type, samples: []};
+  }
+}
+
+/**
+ * Format one sample line
+ */
+function sample(name: string, labels: Record<string, string>, value: number): string {
+  const labelText = Object.entries(labels)
+    .map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`)
+    .join(',');
+  return `${name}{${labelText}} ${formatValue(value)}`;
+}
+
+/**
+ * Format the cumulative buckets, sum and count of a histogram recorded in milliseconds, in seconds
+ */
+function histogramSamples(name: string, labels: Record<string, string>, histogram: HistogramSnapshot): string[] {
+  const samples: string[] = [];
+  let cumulative = 0;
+  histogram.bounds.forEach((bound, index) => {
+    cumulative += histogram.counts[index];
+    samples.push(sample(`${name}_bucket`, {...labels, le: formatValue(bound / 1000)}, cumulative));
+  });
+  samples.push(sample(`${name}_bucket`, {...labels, le: '+Inf'}, histogram.count));
+  samples.push(sample(`${name}_sum`, labels, histogram.sum / 1000));
+  samples.push(sample(`${name}_count`, labels, histogram.count));
+  return samples;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
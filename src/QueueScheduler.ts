@@ -0,0 +1,154 @@
+import { ThreadQueue } from './ThreadQueue';
+
+/**
+ * Per-queue scheduling state
+ */
+interface QueueState<E> {
+  readonly queue: ThreadQueue;
+  readonly order: number;
+  readonly pending: E[];
+  running: number;
+  /** Virtual time of the queue: dispatches so far, scaled by 1 / weight */
+  pass: number;
+}
+
+/**
+ * QueueScheduler picks which queue's task runs next when a thread frees up.
+ *
+ * Queues with a higher priority always go first. Queues of equal priority share
+ * dispatches in proportion to their weights (stride scheduling): every dispatch
+ * advances a queue's virtual time by 1 / weight, and the queue with the lowest
+ * virtual time goes next, ties going to the queue passed first. A queue that has
+ * reached its maxConcurrency is skipped until one of its tasks finishes.
+ */
+export class QueueScheduler<E> {
+  private readonly states: Map<ThreadQueue, QueueState<E>>;
+
+  /**
+   * Constructor for QueueScheduler
+   * @param queues - The queues to schedule, in tie-breaking order
+   */
+  constructor(queues: ThreadQueue[]) {
+    this.states = new Map();
+    queues.forEach((queue, order) => {
+      this.states.set(queue, {queue, order, pending: [], running: 0, pass: 0});
+    });
+  }
+
+  /**
+   * Add an entry to the back of its queue's pending list
+   * @param queue - The queue the entry belongs to
+   * @param entry - The entry to schedule
+   */
+  add(queue: ThreadQueue, entry: E): void {
+    const state = this.states.get(queue);
+    if (!state) {
+      throw new Error(`Queue "${queue.getName()}" is not scheduled by this pool`);
+    }
+
+    // A queue that had nothing to do must not bank credit for the time it was idle
+    if (state.pending.length === 0 && state.running === 0) {
+      state.pass = Math.max(state.pass, this.getMinimumPass(state.queue.getPriority()));
+    }
+    state.pending.push(entry);
+  }
+
+  /**
+   * Take the next entry to run, marking it as running in its queue
+   * @returns The entry and its queue, or undefined if no queue may run a task now
+   */
+  next(): [E, ThreadQueue] | undefined {
+    let selected: QueueState<E> | undefined;
+    for (const [, state] of this.states) {
+      if (!this.isRunnable(state)) {
+        continue;
+      }
+      if (!selected || this.compare(state, selected) < 0) {
+        selected = state;
+      }
+    }
+
+    if (!selected) {
+      return undefined;
+    }
+    selected.running++;
+    selected.pass += 1 / selected.queue.getWeight();
+    return [selected.pending.shift()!, selected.queue];
+  }
+
+  /**
+   * Mark an entry of a queue as running that did not come through next(), e.g. a forked child
+   * @param queue - The queue the entry belongs to
+   * @returns false if the queue has reached its maxConcurrency
+   */
+  tryAcquire(queue: ThreadQueue): boolean {
+    const state = this.states.get(queue);
+    const maxConcurrency = queue.getMaxConcurrency();
+    if (!state || (maxConcurrency !== undefined && state.running >= maxConcurrency)) {
+      return false;
+    }
+    state.running++;
+    state.pass += 1 / queue.getWeight();
+    return true;
+  }
+
+  /**
+   * Record that a running entry of a queue has finished
+   * @param queue - The queue the entry belongs to
+   */
+  release(queue: ThreadQueue): void {
+    const state = this.states.get(queue);
+    if (state && state.running > 0) {
+      state.running--;
+    }
+  }
+
+  /**
+   * Remove an entry that has not been taken by next() yet
+   * @param queue - The queue the entry belongs to
+   * @param entry - The entry to remove
+   * @returns true if the entry was still pending
+   */
+  remove(queue: ThreadQueue, entry: E): boolean {
+    const state = this.states.get(queue);
+    const index = state ? state.pending.indexOf(entry) : -1;
+    if (index < 0) {
+      return false;
+    }
+    state!.pending.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Remove every pending entry
+   * @returns The removed entries
+   */
+  clear(): E[] {
+    const removed: E[] = [];
+    for (const [, state] of this.states) {
+      removed.push(...state.pending.splice(0));
+    }
+    return removed;
+  }
+
+  private isRunnable(state: QueueState<E>): boolean {
+    const maxConcurrency = state.queue.getMaxConcurrency();
+    return state.pending.length > 0 && (maxConcurrency === undefined || state.running < maxConcurrency);
+  }
+
+  private compare(a: QueueState<E>, b: QueueState<E>): number {
+    return (b.queue.getPriority() - a.queue.getPriority()) || (a.pass - b.pass) || (a.order - b.order);
+  }
+
+  private getMinimumPass(priority: number): number {
+    let minimum = 0;
+    let found = false;
+    for (const [, state] of this.states) {
+      if (state.queue.getPriority() === priority && (state.pending.length > 0 || state.running > 0)) {
+        minimum = found ? Math.min(minimum, state.pass) : state.pass;
+        found = true;
+      }
+    }
+    return minimum;
+  }
+}
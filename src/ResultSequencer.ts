@@ -0,0 +1,122 @@
+import type { GroupedThreadResult, ResultOrder, ThreadResult } from './ThreadPool';
+
+/**
+ * Results of one task, held until they may be emitted
+ */
+interface TaskSlot<V> {
+  results: ThreadResult<V>[];
+  finished: boolean;
+}
+
+/**
+ * ResultSequencer puts the results of a batch of tasks into the requested order.
+ *
+ * In 'completion' order results pass straight through. In 'submission' order the results
+ * of the earliest unfinished task pass straight through, while results of later tasks are
+ * buffered until every earlier task has finished. When grouping, each task's results are
+ * held until it finishes and emitted as one GroupedThreadResult.
+ * @template V - Output value type of the tasks
+ */
+export class ResultSequencer<V> {
+  private readonly slots: TaskSlot<V>[];
+  private readonly order: ResultOrder;
+  private readonly group: boolean;
+  private readonly emit: (item: ThreadResult<V> | GroupedThreadResult<V>) => void;
+  private head: number = 0;
+
+  /**
+   * Constructor for ResultSequencer
+   * @param taskCount - Number of tasks in the batch, identified by their index
+   * @param order - Order to emit results in
+   * @param group - Emit one GroupedThreadResult per task instead of its individual results
+   * @param emit - Receives the results in order
+   */
+  constructor(
+    taskCount: number,
+    order: ResultOrder,
+    group: boolean,
+    emit: (item: ThreadResult<V> | GroupedThreadResult<V>) => void
+  ) {
+    this.slots = Array.from({length: taskCount}, () => ({results: [], finished: false}));
+    this.order = order;
+    this.group = group;
+    this.emit = emit;
+  }
+
+  /**
+   * Accept a result of a task
+   * @param index - Index of the task
+   * @param result - The result
+   */
+  next(index: number, result: ThreadResult<V>): void {
+    if (!this.group && (this.order === 'completion' || index === this.head)) {
+      this.emit(result);
+    } else {
+      this.slots[index].results.push(result);
+    }
+  }
+
+  /**
+   * Record that a task has emitted all its results
+   * @param index - Index of the task
+   */
+  complete(index: number): void {
+    const slot = this.slots[index];
+    slot.finished = true;
+    if (this.order === 'completion') {
+      if (this.group) {
+        this.release(slot);
+      }
+      return;
+    }
+
+    // Tasks that finished while waiting for earlier ones are released in order
+    while (this.head < this.slots.length && this.slots[this.head].finished) {
+      this.release(this.slots[this.head]);
+      this.head++;
+      if (this.head < this.slots.length && !this.group) {
+        // The new head streams from now on; flush what it buffered so far
+        const buffered = this.slots[this.head].results;
+        this.slots[this.head].results = [];
+        buffered.forEach(result => this.emit(result));
+      }
+    }
+  }
+
+  /**
+   * Get the index of the earliest task that has not finished; the task count once all have
+   */
+  getHead(): number {
+    return this.head;
+  }
+
+  private release(slot: TaskSlot<V>): void {
+    const results = slot.results;
+    slot.results = [];
+    if (!this.group) {
+      results.forEach(result => this.emit(result));
+      return;
+    }
+
+    this.emit(groupResults(results));
+  }
+}
+
+/**
+ * Combine all results of a finished task into one GroupedThreadResult
+ * @param results - The task's results, ending with its final one
+ */
+export function groupResults<V>(results: ThreadResult<V>[]): GroupedThreadResult<V> {
+  const final = results[results.length - 1];
+  return {
+    threadId: final.threadId,
+    taskId: final.taskId,
+    // Values of failed attempts that were retried are not part of the task's output
+    values: results
+      .filter(result => result.type === 'value' && result.attempt === final.attempt)
+      .map(result => result.value as V),
+    status: final.status!,
+    error: final.error,
+    attempts: final.attempt
+  };
+}
@@ -0,0 +1,54 @@
+import type {ThreadStatus} from './ThreadPool';
+import type {ThreadTaskError} from './ThreadTaskError';
+
+/**
+ * Retry policy for failed thread tasks, set per task or per ThreadQueue.
+ * Each attempt resubscribes to the task's input observable, so cold inputs are replayed.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the second attempt in milliseconds (default 100) */
+  backoffMs?: number;
+  /** Factor applied to the delay after every further attempt (default 2) */
+  backoffFactor?: number;
+  /** Upper bound of the delay in milliseconds (default 30000) */
+  maxBackoffMs?: number;
+  /**
+   * Decide whether a failed attempt is retried (default: every failure and timeout).
+   * Cancelled tasks are never retried.
+   */
+  retryable?: (error: ThreadTaskError, status: ThreadStatus) => boolean;
+}
+
+/**
+ * Get the delay before the attempt following the given one
+ * @param policy - The retry policy
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const backoffMs = policy.backoffMs ?? 100;
+  const backoffFactor = policy.backoffFactor ?? 2;
+  const maxBackoffMs = policy.maxBackoffMs ?? 30000;
+  return Math.min(maxBackoffMs, backoffMs * Math.pow(backoffFactor, attempt - 1));
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ * @param policy - The retry policy, if any
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @param error - The attempt's error
+ * @param status - How the attempt finished
+ */
+export function shouldRetry(
+  policy: RetryPolicy | undefined,
+  attempt: number,
+  error: ThreadTaskError,
+  status: ThreadStatus
+): boolean {
+  if (!policy || attempt >= policy.maxAttempts || status === 'cancelled' || status === 'completed') {
+    return false;
+  }
+  return policy.retryable ? policy.retryable(error, status) : true;
+}
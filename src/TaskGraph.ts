@@ -0,0 +1,168 @@
+import { AbstractThreadTask } from './AbstractThreadTask';
+import { ThreadQueue } from './ThreadQueue';
+
+/**
+ * How a task with dependencies receives their output
+ * - 'values': the output values of every dependency, dependency by dependency in dependsOn order
+ * - 'record': a single value mapping the id of every dependency to its output values
+ */
+export type GraphInputMode = 'values' | 'record';
+
+/**
+ * Options of a task added to a TaskGraph
+ * @template Q - Type of the pool's queues
+ */
+export interface GraphTaskOptions<Q extends ThreadQueue<any> = ThreadQueue> {
+  /** Ids of the tasks whose output is this task's input */
+  dependsOn?: string[];
+  /** How the output of the dependencies is fed to the task (default 'values') */
+  inputMode?: GraphInputMode;
+  /** The pool queue the task is submitted to (default: the first) */
+  queue?: Q;
+}
+
+/**
+ * A task of a TaskGraph
+ */
+export interface GraphNode<Q extends ThreadQueue<any> = ThreadQueue> {
+  id: string;
+  task: AbstractThreadTask;
+  dependsOn: string[];
+  inputMode: GraphInputMode;
+  queue?: Q;
+}
+
+/**
+ * TaskGraph declares tasks that depend on the output of other tasks, to be run by
+ * ThreadPool.runGraph(). Tasks without dependencies run on their own input. A task with
+ * dependencies runs once all of them have completed, with their output as its input,
+ * replacing the input it was created with. Dependencies may be added in any order;
+ * add() rejects a task that would close a cycle, and validate() checks that every
+ * dependency was added.
+ * @template Q - Type of the pool's queues
+ */
+export class TaskGraph<Q extends ThreadQueue<any> = ThreadQueue> {
+  private readonly nodes: Map<string, GraphNode<Q>>;
+
+  constructor() {
+    this.nodes = new Map();
+  }
+
+  /**
+   * Add a task to the graph
+   * @param id - Identifier of the task within the graph
+   * @param task - The task
+   * @param options - The task's dependencies, how their output is fed to it, and its queue
+   * @returns this, for chaining
+   * @throws Error if the id or the task was already added, or if the task's dependencies lead back to it
+   */
+  add(id: string, task: AbstractThreadTask, options: GraphTaskOptions<Q> = {}): this {
+    if (this.nodes.has(id)) {
+      throw new Error(`TaskGraph already has a task "${id}"`);
+    }
+    for (const node of this.nodes.values()) {
+      if (node.task === task) {
+        throw new Error(`Task "${id}" was already added to the TaskGraph as "${node.id}"`);
+      }
+    }
+
+    // Tasks added earlier may depend on this one, so its dependencies must not lead back to it
+    const dependsOn = [...new Set(options.dependsOn ?? [])];
+    for (const dependency of dependsOn) {
+      const path = this.findPath(dependency, id);
+      if (path) {
+        throw new Error(`TaskGraph has a cycle: ${[id, ...path].join(' -> ')}`);
+      }
+    }
+
+    this.nodes.set(id, {
+      id,
+      task,
+      dependsOn,
+      inputMode: options.inputMode ?? 'values',
+      queue: options.queue
+    });
+    return this;
+  }
+
+  /**
+   * Get a task of the graph
+   * @param id - Identifier of the task
+   */
+  getNode(id: string): GraphNode<Q> | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * Get the number of tasks in the graph
+   */
+  size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Check that every dependency exists and that the dependencies have no cycle
+   * @returns Ids of the tasks in an order that puts every task after its dependencies
+   * @throws Error naming a missing dependency, or the tasks forming a cycle
+   */
+  validate(): string[] {
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (id: string): void => {
+      if (state.get(id) === 'done') {
+        return;
+      }
+      if (state.get(id) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(id)), id];
+        throw new Error(`TaskGraph has a cycle: ${cycle.join(' -> ')}`);
+      }
+
+      state.set(id, 'visiting');
+      path.push(id);
+      const node = this.nodes.get(id)!;
+      for (const dependency of node.dependsOn) {
+        if (!this.nodes.has(dependency)) {
+          throw new Error(`Task "${id}" depends on unknown task "${dependency}"`);
+        }
+        visit(dependency);
+      }
+      path.pop();
+      state.set(id, 'done');
+      order.push(id);
+    };
+
+    for (const id of this.nodes.keys()) {
+      visit(id);
+    }
+    return order;
+  }
+
+  /**
+   * Find a chain of dependencies from one task to another
+   * @param from - Id of the task to start from
+   * @param to - Id of the task to reach, which need not have been added yet
+   * @returns Ids of the tasks along the chain, from and to included, or undefined if there is none
+   */
+  private findPath(from: string, to: string): string[] | undefined {
+    const visited = new Set<string>();
+    const search = (id: string): string[] | undefined => {
+      if (id === to) {
+        return [id];
+      }
+      if (visited.has(id)) {
+        return undefined;
+      }
+      visited.add(id);
+      for (const dependency of this.nodes.get(id)?.dependsOn ?? []) {
+        const path = search(dependency);
+        if (path) {
+          return [id, ...path];
+        }
+      }
+      return undefined;
+    };
+    return search(from);
+  }
+}
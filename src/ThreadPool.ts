@@ -1,55 +1,570 @@
 // noinspection JSIgnoredPromiseFromCall
 
-import {Worker} from 'worker_threads';
-import {merge, Observable} from 'rxjs';
+import {isMainThread, ResourceLimits, TransferListItem} from 'worker_threads';
+import {
+  concat,
+  from,
+  fromEvent,
+  lastValueFrom,
+  mergeMap,
+  Observable,
+  ObservableInput,
+  Observer,
+  of,
+  race,
+  ReplaySubject,
+  Subject,
+  Subscription,
+  take,
+  timer,
+  toArray
+} from 'rxjs';
 import * as os from 'os';
-import * as path from 'path';
 import {ThreadQueue} from './ThreadQueue';
-import {AbstractThreadTask} from './AbstractThreadTask';
+import {AbstractThreadTask, TaskOutput, ThreadFunc, ThreadTask, ThreadTaskOptions} from './AbstractThreadTask';
+import {ActorTask, bindActor} from './ActorTask';
+import {PooledWorker, WorkerPool} from './WorkerPool';
+import {Executor, ExecutorWorker, isWorkerLost, WorkerThreadExecutor} from './Executor';
+import {ConcurrencyGovernor} from './ConcurrencyGovernor';
+import {InlineForkJoin} from './InlineForkJoin';
+import {KeyRouter, RebalanceEvent} from './KeyRouter';
+import {createMapTask, createReduceTask, toChunks} from './ParallelTasks';
+import {QueueScheduler} from './QueueScheduler';
+import {groupResults, ResultSequencer} from './ResultSequencer';
+import {GraphNode, TaskGraph} from './TaskGraph';
+import {getTransferList} from './Transfer';
+import {measurePayload, PoolMetrics, PoolMetricsSnapshot, ThreadPoolEvent} from './PoolMetrics';
+import {getRetryDelay, shouldRetry} from './RetryPolicy';
+import {deserializeError, serializeError, ThreadTaskError} from './ThreadTaskError';
+import {SerializedWorkerContext, serializeWorkerContext, WorkerContext} from './WorkerContext';
 
+// Thread ids route messages between a pool and its workers, and are only unique within the
+// thread that created the pool; task ids identify tasks across every thread.
 let nextThreadId: number = 1;  // Reserve threadId === 0 as the "null" thread ID.
+let nextRootTaskIndex: number = 1;
+
+// Maximum number of input values sent to a worker but not yet consumed by its task
+const INPUT_HIGH_WATER_MARK = 1024;
+
+// Times a task is run again after losing its worker, e.g. to a disconnected agent, before it fails
+const MAX_REASSIGNMENTS = 5;
+
+/**
+ * Create an Error with a specific name, e.g. 'TimeoutError'
+ */
+function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Idle timeout of autoscaling pools that do not set one
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+
+/**
+ * Validate the threads option of a ThreadPool and fill in its defaults
+ * @throws Error if a count is not a positive integer (min may be 0), min exceeds max,
+ *         or idleTimeoutMs is negative
+ */
+function resolveThreads(
+  threads: number | ThreadPoolScaling = os.availableParallelism()
+): {min: number; max: number; idleTimeoutMs: number | undefined} {
+  const scaling = typeof threads === 'number' ? undefined : threads;
+  const max = typeof threads === 'number' ? threads : threads.max ?? os.availableParallelism();
+  const min = scaling?.min ?? 0;
+  if (!Number.isInteger(max) || max < 1) {
+    throw new Error(`ThreadPool thread count must be a positive integer, got ${max}`);
+  }
+  if (!Number.isInteger(min) || min < 0 || min > max) {
+    throw new Error(`ThreadPool minimum thread count must be an integer from 0 to ${max}, got ${min}`);
+  }
+  if (!scaling) {
+    return {min: 0, max, idleTimeoutMs: undefined};
+  }
+
+  const idleTimeoutMs = scaling.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  if (!(idleTimeoutMs >= 0)) {
+    throw new Error(`ThreadPool idleTimeoutMs must not be negative, got ${idleTimeoutMs}`);
+  }
+  return {min, max, idleTimeoutMs};
+}
+
+/**
+ * Resolves the function a task runs with when it is executed inline.
+ * worker.js replaces it so inline tasks are compiled in the same context as dispatched ones.
+ */
+let inlineThreadFuncResolver = (task: AbstractThreadTask): ThreadFunc<any, any, any, any> => task.getThreadFunc();
+
+/**
+ * Replace the resolver used for inline task execution (called by worker.js)
+ * @param resolver - Maps a task to the function to run in the current thread
+ */
+export function setInlineThreadFuncResolver(
+  resolver: (task: AbstractThreadTask) => ThreadFunc<any, any, any, any>
+): void {
+  inlineThreadFuncResolver = resolver;
+}
+
+/**
+ * The pool that started the current worker thread or process, as set by worker.js
+ */
+export interface WorkerHost {
+  /** Send a message to that pool */
+  postMessage(message: any): void;
+  /** WorkerContext of that pool, inherited by pools created in the worker */
+  context?: SerializedWorkerContext;
+}
+
+let workerHost: WorkerHost | undefined;
 
 /**
- * Result emitted by the ThreadPool
+ * Set the pool that started the current worker (called by worker.js)
+ * @param host - The starting pool
  */
-export interface ThreadResult<V = any> {
+export function setWorkerHost(host: WorkerHost): void {
+  workerHost = host;
+}
+
+/**
+ * The task a worker is running, as set by worker.js
+ */
+export interface WorkerTaskContext {
+  /** Thread id of the task, as known to the pool that dispatched it */
   threadId: number;
-  value?: V;
-  error?: string;
+  /** Task id of the task, the prefix of the ids of the tasks it creates */
+  taskId: string;
+  /** Relay the events of pools created by the task to the dispatching pool */
+  relayEvents: boolean;
+}
+
+let workerTaskContext: WorkerTaskContext | undefined;
+let nextChildTaskIndex: number = 1;
+
+/**
+ * Set the task the current worker is running, or undefined when it is idle (called by worker.js)
+ * @param context - The running task
+ */
+export function setWorkerTaskContext(context: WorkerTaskContext | undefined): void {
+  workerTaskContext = context;
+  nextChildTaskIndex = 1;
+}
+
+/**
+ * Get the id of the task running in the current worker, e.g. to correlate the logs of nested pools
+ * @returns The task id, or undefined outside of a task
+ */
+export function getCurrentTaskId(): string | undefined {
+  return workerTaskContext?.taskId;
+}
+
+/**
+ * Assign a task its id: the next index, or the caller-supplied id, following the id of the
+ * task running in the current worker, if any. Ids are deterministic: a task gets the same id
+ * whenever its enclosing tasks create their tasks in the same order.
+ * @param task - The task being scheduled
+ */
+function createTaskId(task: AbstractThreadTask): string {
+  if (!workerTaskContext) {
+    return task.getId() ?? String(nextRootTaskIndex++);
+  }
+  return `${workerTaskContext.taskId}.${task.getId() ?? nextChildTaskIndex++}`;
+}
+
+/**
+ * How a task finished
+ * - 'completed': the output observable completed
+ * - 'failed': the thread function or its worker failed
+ * - 'out-of-memory': the worker ran out of memory, as bounded by its resource limits
+ * - 'timeout': the task exceeded its timeout and was stopped
+ * - 'cancelled': the task was cancelled and stopped
+ */
+export type ThreadStatus = 'completed' | 'failed' | 'out-of-memory' | 'timeout' | 'cancelled';
+
+/**
+ * Fields shared by every result
+ */
+interface ThreadResultBase {
+  threadId: number;
+  /** Globally unique, hierarchical identifier of the task, e.g. '3.1.2' */
+  taskId: string;
+  /** Number of the attempt the result belongs to, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * An output value of a task
+ */
+export interface ThreadValueResult<V = any> extends ThreadResultBase {
+  type: 'value';
+  value: V;
+  completed: false;
+  error?: never;
+  status?: never;
+}
+
+/**
+ * A task failed. completed is false for a failed attempt that will be retried.
+ */
+export interface ThreadErrorResult extends ThreadResultBase {
+  type: 'error';
+  error: ThreadTaskError;
   completed: boolean;
+  /** How the task, or the attempt that will be retried, finished */
+  status: Exclude<ThreadStatus, 'completed'>;
+  value?: never;
+}
+
+/**
+ * A task completed
+ */
+export interface ThreadCompleteResult extends ThreadResultBase {
+  type: 'complete';
+  completed: true;
+  status: 'completed';
+  value?: never;
+  error?: never;
+}
+
+/**
+ * Result emitted by the ThreadPool, narrowed by its type
+ * @template V - Output value type of the task
+ */
+export type ThreadResult<V = any> = ThreadValueResult<V> | ThreadErrorResult | ThreadCompleteResult;
+
+/**
+ * All results of one task, emitted by start() with the group option once the task has finished
+ * @template V - Output value type of the task
+ */
+export interface GroupedThreadResult<V = any> {
+  threadId: number;
+  taskId: string;
+  /** Output values of the task's final attempt */
+  values: V[];
+  status: ThreadStatus;
+  error?: ThreadTaskError;
+  /** Number of attempts the task took */
+  attempts: number;
+}
+
+/**
+ * Order in which start() emits results
+ * - 'completion': as the tasks produce them
+ * - 'submission': task by task, in the order of the queues and of the tasks in each queue
+ */
+export type ResultOrder = 'completion' | 'submission';
+
+/**
+ * Options for ThreadPool.start()
+ */
+export interface StartOptions {
+  /** Order in which results are emitted (default 'completion') */
+  order?: ResultOrder;
+  /** Emit one GroupedThreadResult per task, once it has finished, instead of its individual results */
+  group?: boolean;
+  /**
+   * In 'submission' order, only tasks fewer than this many positions after the earliest unfinished
+   * one are scheduled, bounding the results buffered for tasks that finish early (default: no bound)
+   */
+  reorderWindow?: number;
+}
+
+/**
+ * Output value type of the tasks of a queue, or a union of queues
+ */
+export type QueueOutput<Q> = Q extends ThreadQueue<infer V> ? V : never;
+
+/**
+ * Bounds of an autoscaling ThreadPool. Workers are started as tasks wait for a thread,
+ * up to max, and terminated again once they have been idle for idleTimeoutMs, down to min.
+ */
+export interface ThreadPoolScaling {
+  /** Workers started with the pool and kept alive when idle (default 0) */
+  min?: number;
+  /** Maximum number of workers, and of tasks running at once (default: os.availableParallelism()) */
+  max?: number;
+  /** Terminate workers above min after they have been idle this many milliseconds (default 30000) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Options for a ThreadPool
+ */
+export interface ThreadPoolOptions {
+  /** Backend the tasks run on (default: a WorkerThreadExecutor) */
+  executor?: Executor;
+  /**
+   * Number of worker threads: a fixed count, whose workers are kept alive once started,
+   * or autoscaling bounds (default: os.availableParallelism(), fixed)
+   */
+  threads?: number | ThreadPoolScaling;
+  /** Default timeout for tasks that do not set their own timeoutMs */
+  taskTimeoutMs?: number;
+  /** Shut the pool down gracefully on SIGINT or SIGTERM, then exit the process */
+  handleSignals?: boolean;
+  /** Deadline for running tasks when the pool is shut down by a signal */
+  shutdownTimeoutMs?: number;
+  /** Resource limits of workers running tasks that do not set their own */
+  resourceLimits?: ResourceLimits;
+  /** Delay starting new workers while the process RSS exceeds this many megabytes */
+  memoryBudgetMb?: number;
+  /** Measure the serialized size of task input and output values in events and metrics (costs a serialization) */
+  measurePayloadBytes?: boolean;
+  /** Upper bounds of the wait and run time histogram buckets, in milliseconds */
+  latencyBucketsMs?: number[];
+  /**
+   * Modules, values and an init hook exposed to the thread functions of every worker.
+   * Pools created inside a worker inherit the context of the pool that started the worker.
+   */
+  context?: WorkerContext;
+  /**
+   * Number of shards the routing keys of tasks are spread over; each shard is bound to one
+   * worker (default: the maximum thread count). Only rebalance() changes it.
+   */
+  shards?: number;
+}
+
+/**
+ * Options for ThreadPool.shutdown()
+ */
+export interface ShutdownOptions {
+  /** Let running tasks finish (default true); otherwise stop them right away */
+  graceful?: boolean;
+  /** Stop the tasks still running this many milliseconds after a graceful shutdown began */
+  timeoutMs?: number;
+}
+
+/**
+ * What happened to the pool's tasks during shutdown, by thread id
+ */
+export interface ShutdownSummary {
+  /** Running tasks that finished on their own */
+  finished: number[];
+  /** Running tasks that were stopped, with status 'cancelled' */
+  aborted: number[];
+  /** Scheduled tasks that never started, reported with status 'cancelled' */
+  cancelled: number[];
+}
+
+/**
+ * Result of one attempt of a task, before it is identified and its error is wrapped in a ThreadTaskError
+ */
+type ExecutionResult =
+  | { type: 'value'; value: any }
+  | { type: 'error'; error: Error; status: Exclude<ThreadStatus, 'completed'> }
+  | { type: 'complete' };
+
+/**
+ * Timing and payload accounting of one attempt of a task, reported as events
+ */
+interface AttemptRecord {
+  threadId: number;
+  taskId: string;
+  /** Id of the task that forked this one, for forked children */
+  parentTaskId?: string;
+  taskName: string;
+  queue: ThreadQueue;
+  attempt: number;
+  /** performance.now() when the attempt became ready to run */
+  readyAt: number;
+  startedAt?: number;
+  workerId?: number;
+  inputBytes: number;
+  outputBytes: number;
+}
+
+/**
+ * Receives the results of one task execution
+ */
+interface ResultSink {
+  /** Called once the task starts on its worker or thread */
+  start?(): void;
+  next(result: ExecutionResult): void;
+  error(error: any): void;
+  complete(): void;
+}
+
+/**
+ * Handle on a task submitted to a running pool
+ */
+export interface SubmittedTask<V = any> {
+  threadId: number;
+  taskId: string;
+  /** Results of the task; every subscriber receives all of them, from the first one */
+  results: Observable<ThreadResult<V>>;
+  /** Resolve with the task's output values once it completes, or reject with its ThreadTaskError */
+  toPromise(): Promise<V[]>;
+}
+
+/**
+ * Options for ThreadPool.run()
+ */
+export interface RunOptions<Q extends ThreadQueue<any> = ThreadQueue> extends ThreadTaskOptions {
+  /** The pool queue the task is submitted to (default: the first) */
+  queue?: Q;
+}
+
+/**
+ * Options for ThreadPool.map() and ThreadPool.reduce(), applied to the task of every chunk
+ */
+export interface ParallelOptions<Q extends ThreadQueue<any> = ThreadQueue> extends Omit<ThreadTaskOptions, 'id'> {
+  /** Number of values per task (default: the values spread evenly over getMaxThreads() tasks) */
+  chunkSize?: number;
+  /** The pool queue the tasks are submitted to (default: the first) */
+  queue?: Q;
+}
+
+/**
+ * A task of a TaskGraph that was not run because one of its dependencies did not complete
+ */
+export interface SkippedGraphTaskResult {
+  status: 'skipped';
+  /** Id of the task whose failure caused the skip; it may be an indirect dependency */
+  failedTask: string;
 }
 
 /**
- * ThreadPool manages a pool of worker threads that execute tasks from queues
+ * Outcome of a task of a TaskGraph
+ * @template V - Output value type of the task
  */
-export class ThreadPool {
+export type GraphTaskResult<V = any> = GroupedThreadResult<V> | SkippedGraphTaskResult;
+
+/**
+ * A task observable waiting for, or holding, one of the pool's threads
+ */
+interface ScheduledTask {
+  task: AbstractThreadTask;
+  threadId: number;
+  taskId: string;
+  observable: Observable<ThreadResult>;
+  observer: Observer<ThreadResult>;
+  subscription: Subscription;
+  /** Called once the task no longer holds a thread */
+  onFinish?: () => void;
+}
+
+/**
+ * Handle on a task dispatched to, or waiting for, a pooled worker
+ */
+interface WorkerExecution {
+  /** Abandon the task, sacrificing its worker if it is already running */
+  abandon(): void;
+  /** Withdraw the task if it is still waiting for a worker; false if it was already dispatched */
+  withdraw(): boolean;
+}
+
+/**
+ * A child task forked by a task running on a worker
+ */
+interface ForkedTask {
+  childThreadId: number;
+  execution: WorkerExecution;
+}
+
+/**
+ * ThreadPool manages a pool of long-lived worker threads that execute tasks from queues
+ * @template Q - Type of the pool's queues; results of start() carry their tasks' output types
+ */
+export class ThreadPool<Q extends ThreadQueue<any> = ThreadQueue> {
   private readonly maxThreads: number;
-  private readonly threadQueueArray: ThreadQueue[];
-  private readonly activeWorkers: Map<number, Worker>;
+  private readonly threadQueueArray: Q[];
+  private readonly activeWorkers: Map<number, PooledWorker>;
+  private readonly workerPool: WorkerPool;
+  private readonly router: KeyRouter;
+  private readonly executor: Executor;
+  private readonly governor: ConcurrencyGovernor;
+  private readonly taskTimeoutMs: number | undefined;
+  private readonly scheduler: QueueScheduler<ScheduledTask>;
+  private readonly runningTasks: Set<ScheduledTask>;
+  // Thread ids of the running tasks waiting for their shard's worker, which hold no thread meanwhile
+  private readonly shardWaits: Set<number>;
+  // Children forked by running tasks that hold a thread of their own
+  private runningForks: number = 0;
+  private readonly submittedResults: Subject<ThreadResult>;
+  private readonly watchSubscriptions: Subscription;
+  private readonly capacitySubscription: Subscription | undefined;
+  private readonly signalHandlers: Map<NodeJS.Signals, () => void>;
+  private readonly events: Subject<ThreadPoolEvent>;
+  private readonly metrics: PoolMetrics;
+  private readonly measurePayloadBytes: boolean;
+  private dispatching: boolean = false;
+  private redispatch: boolean = false;
+  private shutdownPromise: Promise<ShutdownSummary> | undefined;
 
   /**
    * Constructor for ThreadPool
    * @param threadQueueArray - Array of ThreadQueue instances containing tasks to execute
+   * @param options - Optional pool-wide settings
+   * @throws Error if the thread counts or the number of shards are invalid, or if a name of the
+   *         worker context is not an identifier or one of its modules cannot be found
    */
-  constructor(threadQueueArray: ThreadQueue[]) {
+  constructor(threadQueueArray: Q[], options: ThreadPoolOptions = {}) {
     if (!threadQueueArray || threadQueueArray.length === 0) {
       throw new Error('ThreadPool requires at least one ThreadQueue');
     }
 
-    this.maxThreads = os.availableParallelism();
+    const threads = resolveThreads(options.threads);
+    this.maxThreads = threads.max;
     this.threadQueueArray = threadQueueArray;
+    this.taskTimeoutMs = options.taskTimeoutMs;
     this.activeWorkers = new Map();
+    this.scheduler = new QueueScheduler(threadQueueArray);
+    this.runningTasks = new Set();
+    this.shardWaits = new Set();
+    this.submittedResults = new Subject();
+    this.watchSubscriptions = new Subscription();
+    this.signalHandlers = new Map();
+    this.events = new Subject();
+    this.metrics = new PoolMetrics(options.latencyBucketsMs);
+    this.measurePayloadBytes = options.measurePayloadBytes ?? false;
+    this.governor = ConcurrencyGovernor.getGlobal();
+    this.executor = options.executor ?? new WorkerThreadExecutor();
+    this.workerPool = new WorkerPool(this.maxThreads, this.executor, {
+      workerData: {
+        governor: this.governor.getBuffer(),
+        context: options.context ? serializeWorkerContext(options.context) : workerHost?.context
+      },
+      resourceLimits: options.resourceLimits,
+      memoryBudgetBytes: options.memoryBudgetMb !== undefined ? options.memoryBudgetMb * 1024 * 1024 : undefined,
+      minWorkers: this.executor.inline ? 0 : threads.min,
+      idleTimeoutMs: threads.idleTimeoutMs
+    });
+    this.router = new KeyRouter(this.workerPool, options.shards ?? this.maxThreads);
+
+    // Workers the executor runs beyond the pool's threads, e.g. on remote agents, are extra slots
+    this.capacitySubscription = this.executor.getCapacityChanges?.().subscribe(() => {
+      this.workerPool.serveWaitingRequests();
+      this.dispatch();
+    });
+
+    if (options.handleSignals && isMainThread) {
+      this.handleSignals(options.shutdownTimeoutMs);
+    }
   }
 
   /**
    * Start executing all tasks from all queues
-   * @returns Observable that emits results from all threads, or null if no tasks
+   * @param options - Order of the results, and whether to group them by task
+   * @returns Observable that emits results from all threads, or null if no tasks or the pool was shut down
+   * @throws Error if reorderWindow is not a positive integer
    */
-  start(): Observable<ThreadResult> | null {
-    // Concatenate all tasks from all queues into a single list
-    const allTasks: AbstractThreadTask[] = [];
+  start(options?: StartOptions & { group?: false }): Observable<ThreadResult<QueueOutput<Q>>> | null;
+  start(options: StartOptions & { group: true }): Observable<GroupedThreadResult<QueueOutput<Q>>> | null;
+  start(options: StartOptions = {}): Observable<ThreadResult<QueueOutput<Q>> | GroupedThreadResult<QueueOutput<Q>>> | null {
+    const order = options.order ?? 'completion';
+    const window = order === 'submission' ? options.reorderWindow ?? Infinity : Infinity;
+    if (window !== Infinity && !(Number.isInteger(window) && window >= 1)) {
+      throw new Error(`reorderWindow must be a positive integer, got ${window}`);
+    }
+    if (this.shutdownPromise) {
+      return null;
+    }
+
+    // Concatenate all tasks from all queues into a single list, along with their queue
+    const allTasks: Array<[AbstractThreadTask, ThreadQueue]> = [];
     for (const queue of this.threadQueueArray) {
-      allTasks.push(...queue.getAllTasks());
+      for (const task of queue.getAllTasks()) {
+        allTasks.push([task, queue]);
+      }
     }
 
     // If no tasks, return null immediately
@@ -57,125 +572,1197 @@ export class ThreadPool {
       return null;
     }
 
-    // Create observables for each thread
-    const threadObservables: Observable<ThreadResult>[] = [];
+    // Assign each task its thread id and task id, to be run on a pooled worker thread
+    const threads: Array<[AbstractThreadTask, number, string, ThreadQueue]> = [];
+    for (const [task, queue] of allTasks) {
+      threads.push([task, nextThreadId++, createTaskId(task), queue]);
+    }
+
+    // Up till now this has all been preparation for running the tasks...
+    // Tasks are finally dispatched to warm workers here (spawned on first use)...
+    // The scheduler picks which queue's task gets each free thread.
+    // Each thread begins execution as soon as it gets a worker, its input is streamed to it...
+    // The sequencer puts the results in the requested order; with a reorder window, later tasks
+    // are only scheduled once earlier ones have finished.
+    // When the returned observable completes, all threads have completed execution.
+    return new Observable<ThreadResult<QueueOutput<Q>> | GroupedThreadResult<QueueOutput<Q>>>(subscriber => {
+      let remaining = threads.length;
+      const sequencer = new ResultSequencer<QueueOutput<Q>>(
+        threads.length,
+        order,
+        options.group ?? false,
+        item => subscriber.next(item)
+      );
+      const teardowns: Array<() => void> = [];
+      // The whole window is handed to the scheduler before any task is dispatched, so the
+      // first threads go to the tasks the queues' priorities and weights pick, not the first ones
+      const scheduleWithinWindow = () => {
+        while (teardowns.length < threads.length && teardowns.length < sequencer.getHead() + window) {
+          // Claim the slot first: a task finishing synchronously re-enters this loop
+          const index = teardowns.push(() => {}) - 1;
+          const [task, threadId, taskId, queue] = threads[index];
+          teardowns[index] = this.scheduleTask(task, threadId, taskId, queue, {
+            next: (result) => sequencer.next(index, result),
+            error: (error) => subscriber.error(error),
+            complete: () => {
+              sequencer.complete(index);
+              if (--remaining === 0) {
+                subscriber.complete();
+              } else {
+                scheduleWithinWindow();
+              }
+            }
+          }, false);
+        }
+        this.dispatch();
+      };
+      scheduleWithinWindow();
+      return () => teardowns.forEach(teardown => teardown());
+    });
+  }
+
+  /**
+   * Submit a task to the pool. The task is scheduled right away alongside the pool's
+   * other tasks and runs whether or not its results are subscribed.
+   * @param task - The task to execute
+   * @param queue - One of the pool's queues, whose scheduling options and retry policy
+   *                apply to the task (default: the first queue)
+   * @returns Handle on the task's results, typed by the task's output
+   * @throws Error if the pool was shut down
+   */
+  submit<K extends AbstractThreadTask>(task: K, queue: Q = this.threadQueueArray[0]): SubmittedTask<TaskOutput<K>> {
+    type V = TaskOutput<K>;
+    if (this.shutdownPromise) {
+      throw new Error('ThreadPool has been shut down');
+    }
+
+    const threadId = nextThreadId++;
+    const taskId = createTaskId(task);
+    const results = new ReplaySubject<ThreadResult<V>>();
+    this.scheduleTask(task, threadId, taskId, queue, {
+      next: (result) => {
+        results.next(result);
+        this.submittedResults.next(result);
+      },
+      error: (error) => results.error(error),
+      complete: () => results.complete()
+    });
+
+    return {
+      threadId,
+      taskId,
+      results: results.asObservable(),
+      toPromise: () => lastValueFrom(results.pipe(toArray())).then(all => {
+        const final = all[all.length - 1];
+        if (final?.type === 'error') {
+          throw final.error;
+        }
+        // Values of failed attempts that were retried are not part of the task's output
+        return all
+          .filter((result): result is ThreadValueResult<V> => result.type === 'value' && result.attempt === final?.attempt)
+          .map(result => result.value);
+      })
+    };
+  }
+
+  /**
+   * Keep executing the pool's queues: every task currently in a queue, and every task
+   * enqueued afterwards, is dequeued and submitted. Results are emitted by getResults().
+   * @returns Subscription that stops watching the queues when unsubscribed
+   * @throws Error if the pool was shut down
+   */
+  watch(): Subscription {
+    if (this.shutdownPromise) {
+      throw new Error('ThreadPool has been shut down');
+    }
+
+    const subscription = new Subscription();
+    for (const queue of this.threadQueueArray) {
+      const drain = () => {
+        let task: AbstractThreadTask | undefined;
+        while ((task = queue.dequeue()) !== undefined) {
+          this.submit(task, queue);
+        }
+      };
+      subscription.add(queue.getEnqueued().subscribe(drain));
+      drain();
+    }
+    this.watchSubscriptions.add(subscription);
+    return subscription;
+  }
+
+  /**
+   * Run a thread function on the pool, as a submitted task
+   * @param threadFunc - The thread function
+   * @param input - Input values of the task: an Observable, array, iterable or Promise
+   * @param options - Task options, and the queue to submit the task to
+   * @returns Promise of the task's output values, rejected with its ThreadTaskError if it fails
+   */
+  async run<T, V>(
+    threadFunc: ThreadFunc<T, Observable<T>, V, Observable<V>>,
+    input: ObservableInput<T>,
+    options: RunOptions<Q> = {}
+  ): Promise<V[]> {
+    const {queue, ...taskOptions} = options;
+    return this.submit(new ThreadTask(threadFunc, from(input), taskOptions), queue).toPromise();
+  }
+
+  /**
+   * Map values in parallel: the values are split into chunks and each chunk is mapped by a
+   * task of its own. If a chunk fails, the tasks of the other chunks are cancelled.
+   * @param mapper - Self-contained function applied to every value, serialized like a thread function
+   * @param values - The values
+   * @param options - Chunk size, options of the chunk tasks, and the queue to submit them to
+   * @returns Promise of the mapped values, in the order of the input values
+   */
+  async map<T, V>(mapper: (value: T) => V, values: Iterable<T>, options: ParallelOptions<Q> = {}): Promise<V[]> {
+    const {chunkSize, queue, ...taskOptions} = options;
+    const chunks = this.chunk(values, chunkSize);
+    const mapped = await this.runChunks(chunks.map(chunk => createMapTask(mapper, chunk, taskOptions)), queue);
+    return mapped.flat();
+  }
+
+  /**
+   * Aggregate values in parallel: every chunk of values is folded by its own task starting
+   * from the initial value, then the partial results are combined in chunk order on this thread.
+   * The initial value must be neutral for the combiner, e.g. 0 for a sum.
+   * @param reducer - Self-contained function folding a value into an accumulator, serialized like a thread function
+   * @param combiner - Combines two partial results
+   * @param values - The values
+   * @param initial - Initial accumulator of every chunk and of the combination
+   * @param options - Chunk size, options of the chunk tasks, and the queue to submit them to
+   * @returns Promise of the aggregate; the initial value when there are no values
+   */
+  async reduce<T, A>(
+    reducer: (accumulator: A, value: T) => A,
+    combiner: (left: A, right: A) => A,
+    values: Iterable<T>,
+    initial: A,
+    options: ParallelOptions<Q> = {}
+  ): Promise<A> {
+    const {chunkSize, queue, ...taskOptions} = options;
+    const chunks = this.chunk(values, chunkSize);
+    const partials = await this.runChunks(
+      chunks.map(chunk => createReduceTask(reducer, initial, chunk, taskOptions)),
+      queue
+    );
+    return partials.reduce(combiner, initial);
+  }
+
+  /**
+   * Run a TaskGraph. Every task is submitted once all its dependencies have completed, with
+   * their output as its input, so independent branches run in parallel. When a task does not
+   * complete, every task depending on it, directly or not, is skipped; the rest of the graph
+   * still runs.
+   * @param graph - The graph
+   * @returns Promise of the outcome of every task, by id, with dependencies before their dependents.
+   *          It is rejected, before any task is submitted, if the graph has a cycle or a missing
+   *          dependency, and it is rejected if the pool is shut down before the graph finishes.
+   */
+  async runGraph(graph: TaskGraph<Q>): Promise<Map<string, GraphTaskResult>> {
+    const order = graph.validate();
+    const outcomes = new Map<string, Promise<GraphTaskResult>>();
+    for (const id of order) {
+      const node = graph.getNode(id)!;
+      const dependencies = node.dependsOn.map(dependency => outcomes.get(dependency)!);
+      outcomes.set(id, Promise.all(dependencies).then(upstream => this.runGraphNode(node, upstream)));
+    }
+
+    const results = await Promise.all(order.map(id => outcomes.get(id)!));
+    return new Map(order.map((id, index) => [id, results[index]]));
+  }
+
+  /**
+   * Spread the routing keys over a new number of shards, e.g. after the pool's capacity changed.
+   * Routing never changes otherwise. Keyed tasks that already got a thread finish first, while
+   * keyed tasks getting a thread meanwhile wait. Keys are mapped to shards by consistent hashing,
+   * so only the keys of the shards added or removed move, and every actor moving to another
+   * shard takes its state along.
+   * @param shards - The new number of shards (default: the pool's maximum thread count plus its
+   *                 executor's extra capacity)
+   * @returns Promise of the rebalance, also emitted by getRebalances()
+   * @throws Error if the number of shards is not a positive integer, or if the pool was shut down
+   */
+  async rebalance(shards: number = this.maxThreads + (this.executor.getExtraCapacity?.() ?? 0)): Promise<RebalanceEvent> {
+    if (this.shutdownPromise) {
+      throw new Error('ThreadPool has been shut down');
+    }
+    return this.router.rebalance(shards);
+  }
+
+  /**
+   * Get the results of every task submitted to the pool, directly or by watch().
+   * The stream is hot: results emitted before subscribing are not replayed.
+   */
+  getResults(): Observable<ThreadResult> {
+    return this.submittedResults.asObservable();
+  }
+
+  /**
+   * Get the pool's instrumentation events: tasks queued, and attempts started, finished or failed.
+   * The stream is hot: events emitted before subscribing are not replayed.
+   */
+  getEvents(): Observable<ThreadPoolEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Get the pool's rebalances, emitted once their actors have moved.
+   * The stream is hot: rebalances emitted before subscribing are not replayed.
+   */
+  getRebalances(): Observable<RebalanceEvent> {
+    return this.router.getRebalances();
+  }
+
+  /**
+   * Get the pool's counters and latency histograms, aggregated from its events
+   */
+  getMetrics(): PoolMetricsSnapshot {
+    return this.metrics.getSnapshot();
+  }
+
+  /**
+   * Shut the pool down: stop accepting tasks, cancel the scheduled tasks that have not
+   * started, let running tasks finish, then terminate every worker. Every task still
+   * emits its final result, so subscribers of start() and submitted tasks complete.
+   * Calling shutdown() again returns the same Promise.
+   * @param options - Whether to wait for running tasks, and for how long
+   * @returns Promise resolved with what happened to the tasks once all workers are terminated
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<ShutdownSummary> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.drain(options.graceful ?? true, options.timeoutMs);
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Check whether shutdown() has been called
+   */
+  isShutdown(): boolean {
+    return this.shutdownPromise !== undefined;
+  }
+
+  /**
+   * Submit the tasks of a parallel operation, each emitting a single value
+   * @param tasks - One task per chunk
+   * @param queue - The queue to submit them to
+   * @returns Promise of the value of every task, in task order
+   */
+  private runChunks<V>(tasks: AbstractThreadTask<any, any, any, Observable<V>>[], queue: Q | undefined): Promise<V[]> {
+    const submitted = tasks.map(task => this.submit(task, queue));
+    return Promise.all(submitted.map(handle => handle.toPromise().then(values => values[0] as V)))
+      .catch(error => {
+        tasks.forEach(task => task.cancel());
+        throw error;
+      });
+  }
 
-    // Create a worker thread for each task
-    for (const task of allTasks) {
-      const threadId = nextThreadId++;  // Race?
-      const observable = this.createWorkerObservable(task, threadId);
-      threadObservables.push(observable);
+  /**
+   * Run a task of a TaskGraph once its dependencies have finished, or skip it
+   * @param node - The task
+   * @param upstream - Outcomes of its dependencies, in dependsOn order
+   * @returns Promise of the task's outcome
+   */
+  private async runGraphNode(node: GraphNode<Q>, upstream: GraphTaskResult[]): Promise<GraphTaskResult> {
+    const failed = upstream.findIndex(result => result.status !== 'completed');
+    if (failed >= 0) {
+      const result = upstream[failed];
+      return {status: 'skipped', failedTask: result.status === 'skipped' ? result.failedTask : node.dependsOn[failed]};
     }
 
-    // Up till now this has all been preparation for launching the threads...
-    // Threads are finally created here...
-    // First merge() subscribes to all the thread(s) output observable(s).
-    // Each thread actually begins execution when its input observable completes...
-    // Merge collects all thread observable output(s) into one observable.
-    // When the observable returned by merge completes, all threads have completed execution.
-    return merge(...threadObservables, this.maxThreads);
+    if (node.dependsOn.length > 0) {
+      const outputs = (upstream as GroupedThreadResult[]).map(result => result.values);
+      node.task.setInput(node.inputMode === 'record'
+        ? of(Object.fromEntries(node.dependsOn.map((dependency, index) => [dependency, outputs[index]])))
+        : from(outputs.flat()));
+    }
+    const submitted = this.submit(node.task, node.queue);
+    return groupResults(await lastValueFrom(submitted.results.pipe(toArray())));
   }
 
   /**
-   * Create an Observable that executes a task in a worker thread
+   * Split values into chunks, by default spread evenly over one task per thread
+   * @param values - The values
+   * @param chunkSize - Number of values per chunk
+   */
+  private chunk<T>(values: Iterable<T>, chunkSize: number | undefined): T[][] {
+    const all = [...values];
+    return toChunks(all, chunkSize ?? Math.max(1, Math.ceil(all.length / this.maxThreads)));
+  }
+
+  /**
+   * Hand a task to the scheduler; its observable is subscribed once a thread is free
+   * and its queue's turn comes up
    * @param task - The task to execute
    * @param threadId - Unique thread identifier
-   * @returns Observable that emits results from the worker thread
+   * @param taskId - Globally unique task identifier
+   * @param queue - The queue the task belongs to
+   * @param observer - Receives the task's results
+   * @param dispatchNow - Dispatch right away; false when a batch of tasks is scheduled,
+   *                      which is dispatched once all of them are in the scheduler
+   * @returns Teardown that withdraws the task, or stops it if it is running
    */
-  private createWorkerObservable(
+  private scheduleTask(
     task: AbstractThreadTask,
-    threadId: number
+    threadId: number,
+    taskId: string,
+    queue: ThreadQueue,
+    observer: Observer<ThreadResult>,
+    dispatchNow: boolean = true
+  ): () => void {
+    const scheduled: ScheduledTask = {
+      task,
+      threadId,
+      taskId,
+      observable: this.createTaskObservable(task, threadId, taskId, queue),
+      observer,
+      subscription: new Subscription()
+    };
+    this.scheduler.add(queue, scheduled);
+    this.emitEvent({
+      type: 'queued',
+      threadId,
+      taskId,
+      taskName: task.getName(),
+      queueName: queue.getName(),
+      timestamp: Date.now()
+    });
+
+    // A task cancelled before it gets a thread finishes right away, as cancelled, without a worker
+    const signal = task.getSignal();
+    const onAbort = () => {
+      if (this.scheduler.remove(queue, scheduled)) {
+        scheduled.subscription.add(scheduled.observable.subscribe(observer));
+      }
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, {once: true});
+    }
+    if (dispatchNow) {
+      this.dispatch();
+    }
+
+    return () => {
+      signal.removeEventListener('abort', onAbort);
+      if (!this.scheduler.remove(queue, scheduled)) {
+        scheduled.subscription.unsubscribe();
+        this.settle(scheduled, queue);
+      }
+    };
+  }
+
+  /**
+   * Free the thread held by a running task, and hand it to the next scheduled task
+   * @param scheduled - The task that stopped running
+   * @param queue - The queue the task belongs to
+   */
+  private settle(scheduled: ScheduledTask, queue: ThreadQueue): void {
+    if (this.runningTasks.delete(scheduled)) {
+      this.scheduler.release(queue);
+      scheduled.onFinish?.();
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Carry out a shutdown
+   * @param graceful - Let running tasks finish
+   * @param timeoutMs - Deadline for running tasks, if graceful
+   */
+  private async drain(graceful: boolean, timeoutMs: number | undefined): Promise<ShutdownSummary> {
+    const summary: ShutdownSummary = {finished: [], aborted: [], cancelled: []};
+    this.watchSubscriptions.unsubscribe();
+    this.capacitySubscription?.unsubscribe();
+    this.removeSignalHandlers();
+
+    // Tasks that never started finish right away, as cancelled, without a worker
+    for (const scheduled of this.scheduler.clear()) {
+      summary.cancelled.push(scheduled.threadId);
+      scheduled.task.cancel();
+      scheduled.subscription.add(scheduled.observable.subscribe(scheduled.observer));
+    }
+
+    const running = [...this.runningTasks];
+    const allFinished = Promise.all(running.map(scheduled => new Promise<void>(resolve => {
+      scheduled.onFinish = resolve;
+    })));
+
+    if (graceful) {
+      let deadline: NodeJS.Timeout | undefined;
+      await Promise.race([
+        allFinished,
+        new Promise<void>(resolve => {
+          if (timeoutMs !== undefined) {
+            deadline = setTimeout(resolve, timeoutMs);
+          }
+        })
+      ]);
+      clearTimeout(deadline);
+    }
+
+    for (const scheduled of running) {
+      if (this.runningTasks.has(scheduled)) {
+        summary.aborted.push(scheduled.threadId);
+        scheduled.task.cancel();
+      } else {
+        summary.finished.push(scheduled.threadId);
+      }
+    }
+
+    await allFinished;
+    this.activeWorkers.clear();
+    await this.workerPool.terminate();
+    return summary;
+  }
+
+  /**
+   * Shut the pool down on SIGINT or SIGTERM, then exit with the conventional 128 + signal number
+   * @param timeoutMs - Deadline for running tasks
+   */
+  private handleSignals(timeoutMs: number | undefined): void {
+    for (const signal of ['SIGINT', 'SIGTERM'] as NodeJS.Signals[]) {
+      const handler = () => {
+        this.shutdown({graceful: true, timeoutMs})
+          .finally(() => process.exit(128 + os.constants.signals[signal]));
+      };
+      this.signalHandlers.set(signal, handler);
+      process.once(signal, handler);
+    }
+  }
+
+  private removeSignalHandlers(): void {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.off(signal, handler);
+    }
+    this.signalHandlers.clear();
+  }
+
+  /**
+   * Subscribe scheduled tasks, in the scheduler's order, while fewer than maxThreads, plus the
+   * executor's extra capacity, are running
+   */
+  private dispatch(): void {
+    // Tasks finishing synchronously re-enter here; let the outer loop pick up their slots
+    if (this.dispatching) {
+      this.redispatch = true;
+      return;
+    }
+
+    this.dispatching = true;
+    do {
+      this.redispatch = false;
+      let next: [ScheduledTask, ThreadQueue] | undefined;
+      while (this.getFreeThreads() > 0 && (next = this.scheduler.next())) {
+        const [scheduled, queue] = next;
+        this.runningTasks.add(scheduled);
+        scheduled.subscription.add(scheduled.observable.subscribe({
+          next: (result) => scheduled.observer.next(result),
+          error: (error) => {
+            this.settle(scheduled, queue);
+            scheduled.observer.error(error);
+          },
+          complete: () => {
+            this.settle(scheduled, queue);
+            scheduled.observer.complete();
+          }
+        }));
+      }
+    } while (this.redispatch);
+    this.dispatching = false;
+  }
+
+  /**
+   * Get the number of threads not taken by a running task or forked child
+   */
+  private getFreeThreads(): number {
+    const capacity = this.maxThreads + (this.executor.getExtraCapacity?.() ?? 0);
+    return capacity - (this.runningTasks.size - this.shardWaits.size + this.runningForks);
+  }
+
+  /**
+   * Create an Observable that executes a task, retrying it according to its retry policy.
+   * An attempt whose worker was lost, e.g. to a disconnected agent, is run again right away
+   * without counting against the policy.
+   * A failed attempt that will be retried is emitted with completed === false; every
+   * result carries the number of the attempt it belongs to, and errors are wrapped
+   * in a ThreadTaskError identifying the task.
+   * @param task - The task to execute
+   * @param threadId - Unique thread identifier
+   * @param taskId - Globally unique task identifier
+   * @param queue - The queue the task came from
+   * @returns Observable that emits results from every attempt of the task
+   */
+  private createTaskObservable(
+    task: AbstractThreadTask,
+    threadId: number,
+    taskId: string,
+    queue: ThreadQueue
   ): Observable<ThreadResult> {
-    return new Observable<ThreadResult>(subscriber => {
-      const workerPath = path.join(__dirname, 'worker.js');
-      
-      // Serialize the thread function to string
-      const functionString = task.getThreadFunc().toString();
-      
-      // Get input data from the task's input observable
-      const inputData: any[] = [];
-      const inputSubscription = task.getInput().subscribe({
-        next: (value) => inputData.push(value),
-        complete: () => {
-          // Once input is collected, create and start the worker
-          const worker = new Worker(workerPath, {
-            workerData: {
-              functionString,
-              inputData,
-              threadId
-            }
-          });
-
-          this.activeWorkers.set(threadId, worker);
-
-          worker.on('message', (message: any) => {
-            if (message.type === 'next') {
-              subscriber.next({
-                threadId: message.threadId,
-                value: message.value,
-                completed: false
-              });
-            } else if (message.type === 'error') {
-              subscriber.next({
-                threadId: message.threadId,
-                error: message.error,
-                completed: true
-              });
-              worker.terminate();
-              this.activeWorkers.delete(threadId);
-              subscriber.complete();
-            } else if (message.type === 'complete') {
-              subscriber.next({
-                threadId: message.threadId,
-                completed: true
-              });
-              worker.terminate();
-              this.activeWorkers.delete(threadId);
-              subscriber.complete();
-            }
-          });
-
-          worker.on('error', (error: Error) => {
-            subscriber.next({
-              threadId,
-              error: error.message,
-              completed: true
-            });
-            this.activeWorkers.delete(threadId);
-            subscriber.complete();
-          });
-
-          worker.on('exit', (code: number) => {
-            if (code !== 0 && this.activeWorkers.has(threadId)) {
-              subscriber.next({
-                threadId,
-                error: `Worker stopped with exit code ${code}`,
-                completed: true
-              });
-            }
-            this.activeWorkers.delete(threadId);
-            subscriber.complete();
-          });
+    const retryPolicy = task.getRetryPolicy() ?? queue.getRetryPolicy();
+    const runAttempt = (
+      attempt: number,
+      readyAt: number = performance.now(),
+      reassignments: number = 0
+    ): Observable<ThreadResult> => {
+      const record: AttemptRecord = {
+        threadId,
+        taskId,
+        taskName: task.getName(),
+        queue,
+        attempt,
+        readyAt,
+        inputBytes: 0,
+        outputBytes: 0
+      };
+      return this.createAttemptObservable(task, threadId, record).pipe(
+        mergeMap((result): Observable<ThreadResult> => {
+          if (result.type === 'value') {
+            return of({type: 'value', threadId, taskId, attempt, value: result.value, completed: false});
+          }
+          if (result.type === 'complete') {
+            this.recordFinished(record, 'completed', true);
+            return of({type: 'complete', threadId, taskId, attempt, completed: true, status: 'completed'});
+          }
+
+          const error = new ThreadTaskError(result.error, threadId, taskId, queue.getName(), task.getName(), attempt);
+          const reassigning = isWorkerLost(result.error) && reassignments < MAX_REASSIGNMENTS;
+          // Attempts lost along with their worker do not count against the retry policy
+          const policyAttempt = attempt - reassignments;
+          const retrying = reassigning || shouldRetry(retryPolicy, policyAttempt, error, result.status);
+          this.recordFinished(record, result.status, !retrying);
+          const errorResult: ThreadErrorResult = {
+            type: 'error', threadId, taskId, attempt, error, completed: !retrying, status: result.status
+          };
+          if (!retrying) {
+            return of(errorResult);
+          }
+          if (reassigning) {
+            return concat(of(errorResult), runAttempt(attempt + 1, performance.now(), reassignments + 1));
+          }
+
+          // Wait out the backoff, or until the task is cancelled, then run the next attempt
+          const backoff$ = race(timer(getRetryDelay(retryPolicy!, policyAttempt)), fromEvent(task.getSignal(), 'abort'));
+          return concat(
+            of(errorResult),
+            backoff$.pipe(take(1), mergeMap(() => runAttempt(attempt + 1, performance.now(), reassignments)))
+          );
+        })
+      );
+    };
+
+    return runAttempt(1);
+  }
+
+  /**
+   * Create an Observable that executes one attempt of a task, streaming its input to it.
+   * The attempt is stopped with status 'timeout' or 'cancelled' when its timeout
+   * elapses after it started on a worker, or the task is cancelled before it finishes.
+   * @param task - The task to execute
+   * @param threadId - Unique thread identifier
+   * @param record - Accounting of the attempt
+   * @returns Observable that emits results from the attempt
+   */
+  private createAttemptObservable(
+    task: AbstractThreadTask,
+    threadId: number,
+    record: AttemptRecord
+  ): Observable<ExecutionResult> {
+    return new Observable<ExecutionResult>(subscriber => {
+      let ended = false;
+      const emit = (result: ExecutionResult) => {
+        ended ||= result.type !== 'value';
+        subscriber.next(result);
+      };
+      const signal = task.getSignal();
+      const timeoutMs = task.getTimeoutMs() ?? this.taskTimeoutMs;
+      let timer: NodeJS.Timeout | undefined;
+      let abandon = () => {};
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+      };
+      const stop = (status: 'timeout' | 'cancelled', error: Error) => {
+        cleanup();
+        abandon();
+        emit({type: 'error', error, status});
+        subscriber.complete();
+      };
+      const onAbort = () => stop('cancelled', namedError('AbortError', 'Task was cancelled'));
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+
+      abandon = this.execute(task, threadId, record, {
+        // The timeout runs from the start on a worker, not while waiting for one
+        start: () => {
+          if (timeoutMs !== undefined && !ended) {
+            timer = setTimeout(
+              () => stop('timeout', namedError('TimeoutError', `Task timed out after ${timeoutMs}ms`)),
+              timeoutMs
+            );
+          }
         },
-        error: (error: any) => {
+        next: emit,
+        error: (error) => {
+          ended = true;
+          cleanup();
           subscriber.error(error);
+        },
+        complete: () => {
+          cleanup();
+          subscriber.complete();
         }
       });
 
-      // Cleanup function
       return () => {
-        inputSubscription.unsubscribe();
-        const worker = this.activeWorkers.get(threadId);
-        if (worker) {
-          worker.terminate();
+        cleanup();
+        abandon();
+        // Unsubscribed while running: the attempt ends here, so the events and metrics say so
+        if (!ended) {
+          ended = true;
+          this.recordFinished(record, 'cancelled', true);
+        }
+      };
+    });
+  }
+
+  /**
+   * Execute a task, streaming its input to it.
+   * Top-level pools always run tasks on pooled workers, unless their executor runs tasks
+   * inline. Pools created inside a worker thread borrow a slot from the global
+   * ConcurrencyGovernor, and run the task inline in the current worker when no slot is free.
+   * @param task - The task to execute
+   * @param threadId - Unique thread identifier
+   * @param record - Accounting of the attempt
+   * @param sink - Receives the task's results
+   * @returns Teardown that abandons the task
+   */
+  private execute(task: AbstractThreadTask, threadId: number, record: AttemptRecord, sink: ResultSink): () => void {
+    if (this.executor.inline) {
+      return this.runInline(task, threadId, task.getInput(), sink, record);
+    }
+    if (isMainThread) {
+      this.governor.acquire();
+    } else if (!this.governor.tryAcquire()) {
+      return this.runInline(task, threadId, task.getInput(), sink, record);
+    }
+
+    const execution = this.runOnWorker(task, threadId, record.taskId, task.getInput(), sink, record);
+    return () => execution.abandon();
+  }
+
+  /**
+   * Run a task on a pooled worker thread, holding a governor slot until it finishes.
+   * Input values are forwarded as they are emitted, buffered here while no worker is
+   * available or while INPUT_HIGH_WATER_MARK values await the worker's acknowledgement.
+   * @param task - The task to execute
+   * @param threadId - Unique thread identifier
+   * @param taskId - Globally unique task identifier
+   * @param input - The task's input observable
+   * @param subscriber - Receives the task's results
+   * @param record - Accounting of the attempt
+   * @returns Handle to abandon or withdraw the task
+   */
+  private runOnWorker(
+    task: AbstractThreadTask,
+    threadId: number,
+    taskId: string,
+    input: Observable<any>,
+    subscriber: ResultSink,
+    record: AttemptRecord
+  ): WorkerExecution {
+    // Describe the thread function for the worker: serialized source or module export
+    const source = task.getThreadFuncSource();
+    // Forked children run on any worker, not on their parent's
+    const routingKey = record.parentTaskId === undefined ? task.getRoutingKey() : undefined;
+
+    let slotHeld = true;
+    const releaseSlot = () => {
+      if (slotHeld) {
+        slotHeld = false;
+        this.governor.release();
+      }
+    };
+
+    let detach: (() => void) | undefined;
+    let dispatched = false;
+    let postToWorker: ((message: any, transferList?: TransferListItem[]) => void) | undefined;
+    let inputSubscription: Subscription | undefined;
+
+    // Input values not yet sent to the worker, and how many sent values are unacknowledged
+    const pendingInput: any[] = [];
+    let inputComplete = false;
+    let unacknowledged = 0;
+    let flushScheduled = false;
+    const flushInput = () => {
+      flushScheduled = false;
+      const credit = INPUT_HIGH_WATER_MARK - unacknowledged;
+      if (postToWorker && pendingInput.length > 0 && credit > 0) {
+        const values = pendingInput.splice(0, credit);
+        unacknowledged += values.length;
+        this.measureInput(record, values);
+        postToWorker({type: 'input', threadId, values}, getTransferList(values, task.getTransferInput()));
+      }
+      if (postToWorker && inputComplete && pendingInput.length === 0) {
+        postToWorker({type: 'input-complete', threadId});
+        postToWorker = undefined;
+      }
+    };
+    // Values emitted synchronously in a burst are sent to the worker as one message
+    const scheduleFlush = () => {
+      if (!flushScheduled) {
+        flushScheduled = true;
+        queueMicrotask(flushInput);
+      }
+    };
+
+    // Children forked by this task, keyed by the worker-side fork id
+    const forks = new Map<number, ForkedTask>();
+    let nextForkIndex = 1;
+    const abandonForks = () => {
+      for (const [, fork] of forks) {
+        fork.execution.abandon();
+      }
+      forks.clear();
+    };
+
+    // Borrow a warm worker, or the worker of the routing key's shard, and dispatch the task to it
+    const onWorker = (pooledWorker: PooledWorker) => {
+      dispatched = true;
+      this.shardWaits.delete(threadId);
+      const worker = pooledWorker.worker;
+      if (worker.remote) {
+        // Remote workers do not use this process's thread budget
+        releaseSlot();
+      }
+      this.activeWorkers.set(threadId, pooledWorker);
+      this.recordStarted(record, pooledWorker.workerId);
+      subscriber.start?.();
+
+      const finish = (result: ExecutionResult, reusable: boolean) => {
+        detach!();
+        inputSubscription?.unsubscribe();
+        postToWorker = undefined;
+        abandonForks();
+        releaseSlot();
+        this.router.settle(threadId);
+        if (this.activeWorkers.get(threadId) === pooledWorker) {
           this.activeWorkers.delete(threadId);
+          subscriber.next(result);
+          if (reusable) {
+            this.workerPool.release(pooledWorker);
+          } else {
+            this.workerPool.discard(pooledWorker);
+          }
+        }
+        subscriber.complete();
+      };
+
+      const onMessage = (message: any) => {
+        if (message.threadId !== threadId) {
+          return;
+        }
+        if (message.type === 'next') {
+          if (this.measurePayloadBytes) {
+            record.outputBytes += measurePayload(message.value);
+          }
+          subscriber.next({type: 'value', value: message.value});
+        } else if (message.type === 'error') {
+          finish({type: 'error', error: deserializeError(message.error), status: 'failed'}, true);
+        } else if (message.type === 'complete') {
+          finish({type: 'complete'}, true);
+        } else if (message.type === 'input-ack') {
+          unacknowledged -= message.count;
+          flushInput();
+        } else if (message.type === 'pool-event') {
+          // Events of a pool nested in the task are scoped by the task's thread id
+          this.publishEvent({...message.event, scope: [threadId, ...(message.event.scope ?? [])]});
+        } else if (message.type === 'fork') {
+          const childTaskId = `${taskId}.f${nextForkIndex++}`;
+          this.forkOnWorker(task, worker, record, childTaskId, message.forkId, message.inputData, forks);
+        } else if (message.type === 'join') {
+          // Work stealing: children still waiting for a worker are handed back to the joining worker
+          for (const forkId of message.forkIds) {
+            const fork = forks.get(forkId);
+            if (fork && fork.execution.withdraw()) {
+              forks.delete(forkId);
+              worker.postMessage({type: 'fork-steal', threadId, forkId, childThreadId: fork.childThreadId});
+            }
+          }
         }
       };
+
+      const onError = (error: Error) => {
+        finish({
+          type: 'error',
+          error,
+          status: (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY' ? 'out-of-memory' : 'failed'
+        }, false);
+      };
+
+      const onExit = (code: number) => {
+        finish({type: 'error', error: new Error(`Worker stopped with exit code ${code}`), status: 'failed'}, false);
+      };
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      detach = () => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+      };
+
+      // Values buffered before dispatch travel with the run message, up to the high water mark
+      const initialInput = pendingInput.splice(0, INPUT_HIGH_WATER_MARK);
+      unacknowledged = initialInput.length;
+      const initialComplete = inputComplete && pendingInput.length === 0;
+      this.measureInput(record, initialInput);
+      worker.postMessage({
+        type: 'run',
+        source,
+        inputData: initialInput,
+        inputComplete: initialComplete,
+        transferOutput: task.getTransferOutput(),
+        relayEvents: this.isRelayingEvents(),
+        actor: routingKey !== undefined && task instanceof ActorTask ? this.router.bindActor(task) : undefined,
+        threadId,
+        taskId
+      }, getTransferList(initialInput, task.getTransferInput()));
+      if (!initialComplete) {
+        postToWorker = (message: any, transferList?: TransferListItem[]) => worker.postMessage(message, transferList);
+      }
+    };
+    const cancelRequest = routingKey !== undefined
+      ? this.router.acquire(threadId, routingKey, onWorker)
+      : this.workerPool.acquire(onWorker, task.getResourceLimits());
+    if (routingKey !== undefined && !dispatched) {
+      // The shard's worker is busy: let other tasks have the thread until it is handed over
+      this.shardWaits.add(threadId);
+      this.dispatch();
+    }
+
+    const execution: WorkerExecution = {
+      abandon: () => {
+        if (!dispatched) {
+          cancelRequest();
+          this.shardWaits.delete(threadId);
+        }
+        detach?.();
+        inputSubscription?.unsubscribe();
+        postToWorker = undefined;
+        abandonForks();
+        releaseSlot();
+        this.router.settle(threadId);
+        const pooledWorker = this.activeWorkers.get(threadId);
+        if (pooledWorker) {
+          // The task is still running and cannot be interrupted, so its worker is sacrificed
+          this.activeWorkers.delete(threadId);
+          this.workerPool.discard(pooledWorker);
+        }
+      },
+      withdraw: () => {
+        if (dispatched) {
+          return false;
+        }
+        cancelRequest();
+        this.shardWaits.delete(threadId);
+        inputSubscription?.unsubscribe();
+        releaseSlot();
+        this.router.settle(threadId);
+        return true;
+      }
+    };
+
+    // Subscribe to the input right away, so values are forwarded as soon as a worker is available
+    inputSubscription = input.subscribe({
+      next: (value) => {
+        pendingInput.push(value);
+        scheduleFlush();
+      },
+      complete: () => {
+        inputComplete = true;
+        scheduleFlush();
+      },
+      error: (error: any) => {
+        execution.abandon();
+        subscriber.error(error);
+      }
     });
+
+    return execution;
   }
 
   /**
-   * Get the maximum number of threads based on available parallelism
+   * Schedule a child forked by a task running on a worker. The child runs the
+   * parent's thread function on another pooled worker and its results are
+   * relayed to the parent worker. Like any task, the child takes a thread of the
+   * pool and counts towards its parent queue's maxConcurrency, and reports its
+   * attempt as events. Without a free thread or governor slot the child is
+   * handed straight back to the parent worker to run inline.
+   * @param task - The parent task, whose thread function the child runs
+   * @param parent - The worker running the parent task
+   * @param parentRecord - Accounting of the parent's attempt
+   * @param childTaskId - Task identifier of the child
+   * @param forkId - Worker-side identifier of the fork
+   * @param inputData - Input values of the child
+   * @param forks - The parent's children, keyed by fork id
+   */
+  private forkOnWorker(
+    task: AbstractThreadTask,
+    parent: ExecutorWorker,
+    parentRecord: AttemptRecord,
+    childTaskId: string,
+    forkId: number,
+    inputData: any[],
+    forks: Map<number, ForkedTask>
+  ): void {
+    const parentThreadId = parentRecord.threadId;
+    const childThreadId = nextThreadId++;
+    const queue = parentRecord.queue;
+
+    if (this.getFreeThreads() <= 0 || !this.scheduler.tryAcquire(queue)) {
+      parent.postMessage({type: 'fork-steal', threadId: parentThreadId, forkId, childThreadId});
+      return;
+    }
+    if (!this.governor.tryAcquire()) {
+      this.scheduler.release(queue);
+      parent.postMessage({type: 'fork-steal', threadId: parentThreadId, forkId, childThreadId});
+      return;
+    }
+
+    const record: AttemptRecord = {
+      threadId: childThreadId,
+      taskId: childTaskId,
+      parentTaskId: parentRecord.taskId,
+      taskName: parentRecord.taskName,
+      queue,
+      attempt: 1,
+      readyAt: performance.now(),
+      inputBytes: 0,
+      outputBytes: 0
+    };
+    this.emitEvent({
+      type: 'queued',
+      threadId: childThreadId,
+      taskId: childTaskId,
+      parentTaskId: parentRecord.taskId,
+      taskName: record.taskName,
+      queueName: queue.getName(),
+      timestamp: Date.now()
+    });
+    this.runningForks++;
+
+    let settled = false;
+    const settle = () => {
+      if (!settled) {
+        settled = true;
+        this.runningForks--;
+        this.scheduler.release(queue);
+        this.dispatch();
+      }
+    };
+    const reply = (message: any, transferList?: TransferListItem[]) =>
+      parent.postMessage({...message, threadId: parentThreadId, forkId}, transferList);
+    const execution = this.runOnWorker(task, childThreadId, childTaskId, from(inputData), {
+      next: (result: ExecutionResult) => {
+        if (result.type === 'error') {
+          forks.delete(forkId);
+          this.recordFinished(record, result.status, true);
+          reply({type: 'fork-error', error: serializeError(result.error)});
+        } else if (result.type === 'complete') {
+          forks.delete(forkId);
+          this.recordFinished(record, 'completed', true);
+          reply({type: 'fork-complete'});
+        } else {
+          reply({type: 'fork-next', value: result.value}, getTransferList([result.value], task.getTransferOutput()));
+        }
+      },
+      error: (error: any) => {
+        forks.delete(forkId);
+        this.recordFinished(record, 'failed', true);
+        reply({type: 'fork-error', error: serializeError(error)});
+        settle();
+      },
+      complete: settle
+    }, record);
+    forks.set(forkId, {
+      childThreadId,
+      execution: {
+        abandon: () => {
+          execution.abandon();
+          if (!settled) {
+            this.recordFinished(record, 'cancelled', true);
+            settle();
+          }
+        },
+        // A child handed back to its parent runs as part of the parent's attempt from then on
+        withdraw: () => {
+          if (!execution.withdraw()) {
+            return false;
+          }
+          settle();
+          return true;
+        }
+      }
+    });
+  }
+
+  /**
+   * Run a task inline on the current thread, used by inline executors and when the governor has no free slot
+   * @param task - The task to execute
+   * @param threadId - Unique thread identifier
+   * @param input - The task's input observable
+   * @param subscriber - Receives the task's results
+   * @param record - Accounting of the attempt
+   * @returns Teardown that abandons the task
+   */
+  private runInline(
+    task: AbstractThreadTask,
+    threadId: number,
+    input: Observable<any>,
+    subscriber: ResultSink,
+    record: AttemptRecord
+  ): () => void {
+    this.recordStarted(record, undefined);
+    subscriber.start?.();
+
+    const fail = (error: any) => {
+      subscriber.next({
+        type: 'error',
+        error: error instanceof Error ? error : new Error(String(error)),
+        status: 'failed'
+      });
+      subscriber.complete();
+    };
+
+    // Pools the task creates while it subscribes take their task ids from it
+    const outerContext = workerTaskContext;
+    const outerChildTaskIndex = nextChildTaskIndex;
+    if (outerContext) {
+      workerTaskContext = {...outerContext, taskId: record.taskId};
+      nextChildTaskIndex = 1;
+    }
+
+    try {
+      let threadFunc = inlineThreadFuncResolver(task);
+      if (task instanceof ActorTask) {
+        // Actors run inline keep their state on the current thread
+        threadFunc = bindActor(threadFunc, {key: task.getActorKey(), initialState: task.getInitialState()});
+      }
+      const forkJoin = new InlineForkJoin(threadFunc, () => nextThreadId++);
+      const subscription = threadFunc(input, threadId, forkJoin).subscribe({
+        next: (value: any) => subscriber.next({type: 'value', value}),
+        error: fail,
+        complete: () => {
+          subscriber.next({type: 'complete'});
+          subscriber.complete();
+        }
+      });
+      return () => subscription.unsubscribe();
+    } catch (error) {
+      fail(error);
+      return () => {};
+    } finally {
+      workerTaskContext = outerContext;
+      nextChildTaskIndex = outerChildTaskIndex;
+    }
+  }
+
+  /**
+   * Account for input values sent to a worker
+   * @param record - Accounting of the attempt
+   * @param values - The values sent
+   */
+  private measureInput(record: AttemptRecord, values: any[]): void {
+    if (this.measurePayloadBytes && values.length > 0) {
+      record.inputBytes += measurePayload(values);
+    }
+  }
+
+  /**
+   * Emit the 'started' event of an attempt
+   * @param record - Accounting of the attempt
+   * @param workerId - Id of the pooled worker running it, undefined when inline
+   */
+  private recordStarted(record: AttemptRecord, workerId: number | undefined): void {
+    record.startedAt = performance.now();
+    record.workerId = workerId;
+    this.emitEvent({
+      type: 'started',
+      threadId: record.threadId,
+      taskId: record.taskId,
+      parentTaskId: record.parentTaskId,
+      taskName: record.taskName,
+      queueName: record.queue.getName(),
+      timestamp: Date.now(),
+      attempt: record.attempt,
+      workerId,
+      waitTimeMs: record.startedAt - record.readyAt
+    });
+  }
+
+  /**
+   * Emit the 'finished' or 'failed' event of an attempt
+   * @param record - Accounting of the attempt
+   * @param status - How the attempt finished
+   * @param final - false if the task will be retried
+   */
+  private recordFinished(record: AttemptRecord, status: ThreadStatus, final: boolean): void {
+    const now = performance.now();
+    this.emitEvent({
+      type: status === 'completed' ? 'finished' : 'failed',
+      threadId: record.threadId,
+      taskId: record.taskId,
+      parentTaskId: record.parentTaskId,
+      taskName: record.taskName,
+      queueName: record.queue.getName(),
+      timestamp: Date.now(),
+      attempt: record.attempt,
+      status,
+      final,
+      started: record.startedAt !== undefined,
+      workerId: record.workerId,
+      waitTimeMs: (record.startedAt ?? now) - record.readyAt,
+      runTimeMs: record.startedAt !== undefined ? now - record.startedAt : 0,
+      inputBytes: this.measurePayloadBytes ? record.inputBytes : undefined,
+      outputBytes: this.measurePayloadBytes ? record.outputBytes : undefined
+    });
+  }
+
+  private emitEvent(event: ThreadPoolEvent): void {
+    this.metrics.record(event);
+    this.publishEvent(event);
+  }
+
+  /**
+   * Emit an event of this pool, or of a pool nested in one of its tasks. Inside a worker,
+   * events are also relayed to the pool that dispatched the running task, when it asked for them.
+   * @param event - The event
+   */
+  private publishEvent(event: ThreadPoolEvent): void {
+    this.events.next(event);
+    if (workerTaskContext?.relayEvents) {
+      workerHost?.postMessage({type: 'pool-event', threadId: workerTaskContext.threadId, event});
+    }
+  }
+
+  /**
+   * Check whether anyone listens to this pool's events, so nested pools should relay theirs
+   */
+  private isRelayingEvents(): boolean {
+    return this.events.observed || workerTaskContext?.relayEvents === true;
+  }
+
+  /**
+   * Get the maximum number of threads: the pool's fixed size or upper scaling bound
    * @returns Maximum thread count
    */
   getMaxThreads(): number {
@@ -183,7 +1770,22 @@ export class ThreadPool {
   }
 
   /**
-   * Get the number of currently active workers
+   * Get the number of shards the routing keys are spread over
+   */
+  getShardCount(): number {
+    return this.router.getShardCount();
+  }
+
+  /**
+   * Get the shard a routing key is currently routed to
+   * @param key - The routing key
+   */
+  getShard(key: string): number {
+    return this.router.getShard(key);
+  }
+
+  /**
+   * Get the number of workers currently running a task
    * @returns Active worker count
    */
   getActiveWorkerCount(): number {
@@ -191,13 +1793,20 @@ export class ThreadPool {
   }
 
   /**
-   * Terminate all active workers
+   * Get the number of live workers, including idle warm workers
+   * @returns Pooled worker count
+   */
+  getPooledWorkerCount(): number {
+    return this.workerPool.getWorkerCount();
+  }
+
+  /**
+   * Shut down the pool: terminate all workers, busy or idle.
+   * Tasks still running are abandoned; a later start() spawns fresh workers.
    */
   terminateAll(): void {
-    // noinspection JSUnusedLocalSymbols
-    for (const [, worker] of this.activeWorkers) {
-      worker.terminate();
-    }
     this.activeWorkers.clear();
+    // noinspection JSIgnoredPromiseFromCall
+    this.workerPool.terminate();
   }
 }
@@ -1,36 +1,71 @@
+import { Observable, Subject } from 'rxjs';
 import { AbstractThreadTask } from './AbstractThreadTask';
+import { RetryPolicy } from './RetryPolicy';
+
+/**
+ * Options for a ThreadQueue
+ */
+export interface ThreadQueueOptions {
+  /** Retry policy for the queue's tasks that do not set their own */
+  retry?: RetryPolicy;
+  /** Scheduling priority; queues with a higher priority are always served first (default 0) */
+  priority?: number;
+  /** Share of dispatches relative to other queues of the same priority (default 1) */
+  weight?: number;
+  /** Maximum number of the queue's tasks running at once (default: no limit besides the pool's) */
+  maxConcurrency?: number;
+}
+
+/**
+ * A task whose thread function emits values of type V
+ */
+export type QueuedTask<V> = AbstractThreadTask<any, any, any, Observable<V>>;
 
 // noinspection JSUnusedGlobalSymbols
 /**
  * FIFO queue for ThreadTask instances
  * Provides methods to enqueue, dequeue, and manage thread tasks
+ * @template V - Output value type of the queue's tasks
  */
-export class ThreadQueue {
-  private queue: AbstractThreadTask[];
+export class ThreadQueue<V = any> {
+  private queue: QueuedTask<V>[];
   private readonly name: string;
+  private readonly options: ThreadQueueOptions;
+  private readonly enqueued: Subject<QueuedTask<V>>;
 
   /**
    * Constructor for ThreadQueue
    * @param name - Optional name for the queue for identification
+   * @param options - Optional settings applied to the queue's tasks
    */
-  constructor(name: string = 'default') {
+  constructor(name: string = 'default', options: ThreadQueueOptions = {}) {
+    if (options.weight !== undefined && !(options.weight > 0)) {
+      throw new Error(`ThreadQueue "${name}" weight must be greater than 0`);
+    }
+    if (options.maxConcurrency !== undefined && !(options.maxConcurrency >= 1)) {
+      throw new Error(`ThreadQueue "${name}" maxConcurrency must be at least 1`);
+    }
+
     this.queue = [];
     this.name = name;
+    this.options = options;
+    this.enqueued = new Subject();
   }
 
   /**
    * Add a task to the end of the queue
    * @param task - The thread task to enqueue
    */
-  enqueue(task: AbstractThreadTask): void {
+  enqueue(task: QueuedTask<V>): void {
     this.queue.push(task);
+    this.enqueued.next(task);
   }
 
   /**
    * Remove and return the task at the front of the queue
    * @returns The next task or undefined if queue is empty
    */
-  dequeue(): AbstractThreadTask | undefined {
+  dequeue(): QueuedTask<V> | undefined {
     return this.queue.shift();
   }
 
@@ -38,7 +73,7 @@ export class ThreadQueue {
    * Get the task at the front of the queue without removing it
    * @returns The next task or undefined if queue is empty
    */
-  peek(): AbstractThreadTask | undefined {
+  peek(): QueuedTask<V> | undefined {
     return this.queue[0];
   }
 
@@ -62,7 +97,7 @@ export class ThreadQueue {
    * Get all tasks in the queue
    * @returns Array of all tasks
    */
-  getAllTasks(): AbstractThreadTask[] {
+  getAllTasks(): QueuedTask<V>[] {
     return [...this.queue];
   }
 
@@ -73,10 +108,45 @@ export class ThreadQueue {
     this.queue = [];
   }
 
+  /**
+   * Get a stream of the tasks enqueued from now on, used by ThreadPool.watch()
+   */
+  getEnqueued(): Observable<QueuedTask<V>> {
+    return this.enqueued.asObservable();
+  }
+
   /**
    * Get the queue name
    */
   getName(): string {
     return this.name;
   }
+
+  /**
+   * Get the retry policy of the queue's tasks, if it has one
+   */
+  getRetryPolicy(): RetryPolicy | undefined {
+    return this.options.retry;
+  }
+
+  /**
+   * Get the scheduling priority of the queue
+   */
+  getPriority(): number {
+    return this.options.priority ?? 0;
+  }
+
+  /**
+   * Get the scheduling weight of the queue among queues of the same priority
+   */
+  getWeight(): number {
+    return this.options.weight ?? 1;
+  }
+
+  /**
+   * Get the maximum number of the queue's tasks running at once, if limited
+   */
+  getMaxConcurrency(): number | undefined {
+    return this.options.maxConcurrency;
+  }
 }
@@ -0,0 +1,105 @@
+import * as v8 from 'v8';
+
+/**
+ * Structured-clone friendly form of an Error, used to carry errors between threads
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: SerializedError;
+  /** Enumerable own properties of the error that survive cloning */
+  props: Record<string, any>;
+}
+
+// Built-in error classes recreated by name, so `instanceof TypeError` etc. keep working
+const ERROR_CLASSES: Record<string, ErrorConstructor> = {
+  Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError
+};
+
+/**
+ * Convert any thrown value into a SerializedError
+ * @param error - The thrown value
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return {name: 'Error', message: String(error), props: {}};
+  }
+
+  // Spreading keeps the enumerable own properties, e.g. code; name, message and stack are not enumerable
+  const fields: Record<string, unknown> = {...error};
+  const props: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (key === 'cause') {
+      continue;
+    }
+    try {
+      v8.serialize(value);
+      props[key] = value;
+    } catch {
+      props[key] = String(value);
+    }
+  }
+
+  const cause = 'cause' in error ? error.cause : undefined;
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    cause: cause !== undefined ? serializeError(cause) : undefined,
+    props
+  };
+}
+
+/**
+ * Rebuild an Error from its SerializedError, including its cause chain and custom properties
+ * @param serialized - The serialized error
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const ErrorClass = ERROR_CLASSES[serialized.name] ?? Error;
+  const error = new ErrorClass(serialized.message);
+  Object.assign(error, serialized.props);
+  if (error.name !== serialized.name) {
+    error.name = serialized.name;
+  }
+  // A local stack trace would point at this function, not at the code that threw
+  error.stack = serialized.stack ?? `${serialized.name}: ${serialized.message}`;
+  if (serialized.cause !== undefined) {
+    Object.assign(error, {cause: deserializeError(serialized.cause)});
+  }
+  return error;
+}
+
+/**
+ * Error reported by the ThreadPool for a failed, timed out or cancelled task.
+ * The original error, rebuilt with its name, worker stack, cause chain and custom
+ * properties, is available as `cause`.
+ */
+export class ThreadTaskError extends Error {
+  readonly cause: Error;
+  readonly threadId: number;
+  readonly taskId: string;
+  readonly queueName: string;
+  readonly taskName: string;
+  readonly attempt: number;
+
+  /**
+   * Constructor for ThreadTaskError
+   * @param cause - The original error
+   * @param threadId - Thread identifier of the task
+   * @param taskId - Globally unique identifier of the task
+   * @param queueName - Name of the queue the task came from
+   * @param taskName - Name identifying the task
+   * @param attempt - Number of the failed attempt, starting at 1
+   */
+  constructor(cause: Error, threadId: number, taskId: string, queueName: string, taskName: string, attempt: number) {
+    super(`Task ${taskId} ("${taskName}", queue "${queueName}", attempt ${attempt}) failed: ${cause.message}`);
+    this.name = 'ThreadTaskError';
+    this.cause = cause;
+    this.threadId = threadId;
+    this.taskId = taskId;
+    this.queueName = queueName;
+    this.taskName = taskName;
+    this.attempt = attempt;
+  }
+}
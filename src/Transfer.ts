@@ -0,0 +1,113 @@
+import { MessagePort, TransferListItem } from 'worker_threads';
+
+// Values marked by transfer(), shared by every copy of this module loaded in the thread
+const REGISTRY_KEY: unique symbol = Symbol.for('@krystalmonolith/rx-thread-pool/transfer');
+const registryHost: typeof globalThis & { [REGISTRY_KEY]?: WeakMap<object, TransferListItem[]> } = globalThis;
+const transferRegistry = registryHost[REGISTRY_KEY] ??= new WeakMap();
+
+/**
+ * Typed array constructors accepted by createSharedArray()
+ */
+export type TypedArrayConstructor<A> = {
+  new(buffer: SharedArrayBuffer): A;
+  readonly BYTES_PER_ELEMENT: number;
+};
+
+/**
+ * Typed arrays created by createSharedArray()
+ */
+export type SharedArrayLike = ArrayLike<number | bigint> & {
+  set(source: ArrayLike<number | bigint>, offset?: number): void;
+};
+
+/**
+ * Mark a task input or output value to be moved to the receiving thread instead of copied.
+ * The value itself is returned, so it can be emitted as is. Once sent, the transferred
+ * buffers are detached and unusable in the sending thread.
+ * @param value - An object holding ArrayBuffers, typed arrays or MessagePorts
+ * @param transferList - What to transfer (default: every transferable found in the value)
+ * @returns The value
+ */
+export function transfer<T extends object>(value: T, transferList?: TransferListItem[]): T {
+  transferRegistry.set(value, transferList ?? collectTransferables(value));
+  return value;
+}
+
+/**
+ * Find the ArrayBuffers (including those behind typed arrays and DataViews) and MessagePorts
+ * in a value, searching arrays, Maps, Sets and plain objects. SharedArrayBuffers are shared
+ * by postMessage anyway and never appear in the result.
+ * @param value - The value to search
+ */
+export function collectTransferables(value: unknown): TransferListItem[] {
+  const found = new Set<TransferListItem>();
+  const seen = new Set<object>();
+
+  const visit = (item: unknown) => {
+    if (item === null || typeof item !== 'object' || seen.has(item)) {
+      return;
+    }
+    seen.add(item);
+
+    if (item instanceof ArrayBuffer) {
+      found.add(item);
+    } else if (ArrayBuffer.isView(item)) {
+      if (item.buffer instanceof ArrayBuffer) {
+        found.add(item.buffer);
+      }
+    } else if (item instanceof MessagePort) {
+      found.add(item);
+    } else if (Array.isArray(item) || item instanceof Set) {
+      item.forEach(visit);
+    } else if (item instanceof Map) {
+      item.forEach((mapValue, key) => {
+        visit(key);
+        visit(mapValue);
+      });
+    } else if (Object.getPrototypeOf(item) === Object.prototype || Object.getPrototypeOf(item) === null) {
+      Object.values(item).forEach(visit);
+    }
+  };
+
+  visit(value);
+  return [...found];
+}
+
+/**
+ * Get the transfer list for values about to be posted to another thread
+ * @param values - The values being posted
+ * @param transferAll - Transfer everything transferable in the values, not only those marked by transfer()
+ */
+export function getTransferList(values: unknown[], transferAll: boolean): TransferListItem[] {
+  if (transferAll) {
+    return collectTransferables(values);
+  }
+
+  const transferList = new Set<TransferListItem>();
+  for (const value of values) {
+    if (value !== null && typeof value === 'object') {
+      transferRegistry.get(value)?.forEach(item => transferList.add(item));
+      transferRegistry.delete(value);
+    }
+  }
+  return [...transferList];
+}
+
+/**
+ * Create a typed array backed by a SharedArrayBuffer. Passed as (part of) a task's input
+ * or output, it is shared by reference: the main thread and every worker see the same memory.
+ * Use Atomics to coordinate concurrent writes.
+ * @param ArrayType - The typed array class, e.g. Float64Array
+ * @param source - Length of the new array, or values to copy into it
+ */
+export function createSharedArray<A extends SharedArrayLike>(
+  ArrayType: TypedArrayConstructor<A>,
+  source: number | ArrayLike<number | bigint>
+): A {
+  const length = typeof source === 'number' ? source : source.length;
+  const array = new ArrayType(new SharedArrayBuffer(length * ArrayType.BYTES_PER_ELEMENT));
+  if (typeof source !== 'number') {
+    array.set(source);
+  }
+  return array;
+}
@@ -0,0 +1,159 @@
+import * as net from 'net';
+import * as os from 'os';
+import { CoordinatorFrame, readFrames, writeFrame } from './AgentProtocol';
+import { ConcurrencyGovernor } from './ConcurrencyGovernor';
+import { Executor, ExecutorWorker, WorkerThreadExecutor } from './Executor';
+import { serializeError } from './ThreadTaskError';
+
+/**
+ * Options for a WorkerAgent
+ */
+export interface WorkerAgentOptions {
+  /** Port of the coordinator */
+  port: number;
+  /** Host of the coordinator (default '127.0.0.1') */
+  host?: string;
+  /** Number of workers the agent runs at most (default: os.availableParallelism()) */
+  capacity?: number;
+  /** Name the agent is known by (default: host name and process id) */
+  name?: string;
+  /** Secret the coordinator expects, if it has one */
+  token?: string;
+  /** Backend of the agent's workers (default: a WorkerThreadExecutor) */
+  executor?: Executor;
+}
+
+/**
+ * WorkerAgent connects to an AgentCoordinator, advertises its capacity, and runs the workers
+ * the coordinator asks for, relaying their worker.js messages over the connection. Task
+ * functions are sent as source, but the modules tasks and worker contexts load must be
+ * installed on the agent's machine at the same paths.
+ */
+export class WorkerAgent {
+  private readonly port: number;
+  private readonly host: string;
+  private readonly capacity: number;
+  private readonly name: string;
+  private readonly token: string | undefined;
+  private readonly executor: Executor;
+  private readonly workers: Map<number, ExecutorWorker>;
+  private readonly closed: Promise<void>;
+  private resolveClosed!: () => void;
+  private socket: net.Socket | undefined;
+
+  /**
+   * Constructor for WorkerAgent
+   * @param options - The coordinator's address and secret, and the agent's capacity, name and backend
+   * @throws Error if the capacity is not a positive integer
+   */
+  constructor(options: WorkerAgentOptions) {
+    this.port = options.port;
+    this.host = options.host ?? '127.0.0.1';
+    this.capacity = options.capacity ?? os.availableParallelism();
+    this.name = options.name ?? `${os.hostname()}:${process.pid}`;
+    this.token = options.token;
+    this.executor = options.executor ?? new WorkerThreadExecutor();
+    this.workers = new Map();
+    this.closed = new Promise(resolve => this.resolveClosed = resolve);
+
+    if (!Number.isInteger(this.capacity) || this.capacity < 1) {
+      throw new Error(`WorkerAgent capacity must be a positive integer, got ${this.capacity}`);
+    }
+  }
+
+  /**
+   * Connect to the coordinator
+   * @returns Promise resolved once connected
+   * @throws Error if the agent was already started
+   */
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error('WorkerAgent has already been started');
+    }
+
+    const socket = net.connect(this.port, this.host);
+    this.socket = socket;
+    socket.setNoDelay(true);
+    readFrames<CoordinatorFrame>(socket, frame => this.handleFrame(frame));
+    socket.on('close', () => {
+      Promise.all([...this.workers.values()].map(worker => worker.terminate()))
+        .then(() => this.resolveClosed());
+    });
+
+    return new Promise((resolve, reject) => {
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        socket.on('error', () => {});
+        writeFrame(socket, {type: 'hello', capacity: this.capacity, name: this.name, token: this.token});
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Disconnect from the coordinator, which runs the agent's tasks elsewhere
+   * @returns Promise resolved once the agent's workers have stopped
+   */
+  stop(): Promise<void> {
+    if (!this.socket) {
+      return Promise.resolve();
+    }
+    this.socket.destroy();
+    return this.closed;
+  }
+
+  /**
+   * Get a Promise resolved once the connection is closed, by either side, and the agent's
+   * workers have stopped
+   */
+  getClosed(): Promise<void> {
+    return this.closed;
+  }
+
+  private handleFrame(frame: CoordinatorFrame): void {
+    if (frame.type === 'spawn') {
+      this.spawn(frame);
+    } else if (frame.type === 'message') {
+      this.workers.get(frame.slot)?.postMessage(frame.message);
+    } else if (frame.type === 'terminate') {
+      this.workers.get(frame.slot)?.terminate();
+    }
+  }
+
+  /**
+   * Start a worker for the coordinator and relay what it reports. A request beyond the
+   * agent's capacity is answered with an error and an exit.
+   */
+  private spawn(frame: Extract<CoordinatorFrame, { type: 'spawn' }>): void {
+    const socket = this.socket!;
+    const slot = frame.slot;
+    if (this.workers.size >= this.capacity) {
+      const error = new Error(`WorkerAgent "${this.name}" is at its capacity of ${this.capacity} workers`);
+      writeFrame(socket, {type: 'error', slot, error: serializeError(error)});
+      writeFrame(socket, {type: 'exit', slot, code: 1});
+      return;
+    }
+
+    let worker: ExecutorWorker;
+    try {
+      // Pools created by the agent's tasks draw on the agent's thread budget
+      worker = this.executor.spawn({
+        workerData: {...frame.workerData, governor: ConcurrencyGovernor.getGlobal().getBuffer()},
+        resourceLimits: frame.resourceLimits
+      });
+    } catch (error) {
+      writeFrame(socket, {type: 'error', slot, error: serializeError(error)});
+      writeFrame(socket, {type: 'exit', slot, code: 1});
+      return;
+    }
+
+    this.workers.set(slot, worker);
+    worker.on('message', message => writeFrame(socket, {type: 'message', slot, message}));
+    worker.on('error', (error: any) => writeFrame(socket, {type: 'error', slot, error: serializeError(error), code: error?.code}));
+    worker.on('exit', code => {
+      this.workers.delete(slot);
+      writeFrame(socket, {type: 'exit', slot, code});
+    });
+  }
+}
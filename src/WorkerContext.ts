@@ -0,0 +1,60 @@
+/**
+ * Modules, values and setup made available to the thread functions of a pool's workers
+ */
+export interface WorkerContext {
+  /**
+   * Modules require()d in every worker, exposed to thread functions under the given names,
+   * e.g. { _: 'lodash', stats: './lib/stats.js' }. Relative paths are resolved against process.cwd().
+   */
+  modules?: Record<string, string>;
+  /** Values exposed to thread functions under the given names; they are structured-cloned to every worker */
+  values?: Record<string, any>;
+  /**
+   * Runs once in every worker before its first task, e.g. to warm a cache. Serialized like a thread
+   * function, it may use the injected modules and values by name, and receives the object holding
+   * them: properties it adds are exposed to thread functions too. Tasks wait for a returned Promise.
+   */
+  init?: (context: Record<string, any>) => void | Promise<void>;
+}
+
+/**
+ * WorkerContext as handed to workers in their workerData
+ */
+export interface SerializedWorkerContext {
+  /** Resolved module paths, by name */
+  modules: Record<string, string>;
+  values: Record<string, any>;
+  /** Source of the init hook */
+  init?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Validate a WorkerContext and resolve its modules, so workers can load them
+ * @param context - The context
+ * @throws Error if a name is not a valid identifier or a module cannot be found
+ */
+export function serializeWorkerContext(context: WorkerContext): SerializedWorkerContext {
+  const names = [...Object.keys(context.modules ?? {}), ...Object.keys(context.values ?? {})];
+  for (const name of names) {
+    if (!IDENTIFIER.test(name)) {
+      throw new Error(`Worker context name "${name}" is not a valid identifier`);
+    }
+  }
+
+  const modules: Record<string, string> = {};
+  for (const [name, specifier] of Object.entries(context.modules ?? {})) {
+    try {
+      modules[name] = require.resolve(specifier, {paths: [process.cwd()]});
+    } catch {
+      throw new Error(`Worker context module "${name}" (${specifier}) cannot be resolved`);
+    }
+  }
+
+  return {
+    modules,
+    values: {...context.values},
+    init: context.init?.toString()
+  };
+}
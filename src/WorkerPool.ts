@@ -0,0 +1,485 @@
+import {ResourceLimits} from 'worker_threads';
+import {Executor, ExecutorWorker} from './Executor';
+
+// How often requests held back by the memory budget re-check the process RSS
+const MEMORY_POLL_INTERVAL_MS = 100;
+
+/**
+ * A long-lived worker thread owned by a WorkerPool
+ */
+export interface PooledWorker {
+  readonly workerId: number;
+  readonly worker: ExecutorWorker;
+  /** Resource limits the worker was started with, if any */
+  readonly resourceLimits?: ResourceLimits;
+}
+
+/**
+ * Callback invoked when a worker becomes available for a task
+ */
+export type WorkerRequest = (pooledWorker: PooledWorker) => void;
+
+/**
+ * Options for a WorkerPool
+ */
+export interface WorkerPoolOptions {
+  /** Data handed to every worker on startup */
+  workerData?: any;
+  /** Resource limits of workers requested without limits of their own */
+  resourceLimits?: ResourceLimits;
+  /** Do not start more workers while the process RSS exceeds this many bytes */
+  memoryBudgetBytes?: number;
+  /** Workers started with the pool and kept alive even when idle (default 0) */
+  minWorkers?: number;
+  /** Terminate workers above minWorkers that stayed idle this long (default: idle workers are kept) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * A request waiting for a worker with specific resource limits
+ */
+interface WaitingRequest {
+  request: WorkerRequest;
+  resourceLimits?: ResourceLimits;
+}
+
+/**
+ * A request waiting for the worker of a shard
+ */
+interface ShardRequest {
+  shard: number;
+  request: WorkerRequest;
+  /** Withdraws the request while it waits for a worker to bind the shard to */
+  cancelBinding?: () => void;
+}
+
+/**
+ * WorkerPool keeps up to maxWorkers warm worker threads, plus the executor's extra
+ * capacity, alive and hands them out one task at a time. Workers are only torn down
+ * by terminate(), when they exit on their own, to make room for a worker with
+ * different resource limits, or, with an idle timeout, when they have had nothing
+ * to do for that long. Workers bound to shards of routing keys are never torn down
+ * to make room or for being idle.
+ */
+export class WorkerPool {
+  private readonly maxWorkers: number;
+  private readonly executor: Executor;
+  private readonly options: WorkerPoolOptions;
+  private readonly workers: Map<number, PooledWorker>;
+  private idleWorkers: PooledWorker[];
+  private waitingRequests: WaitingRequest[];
+  private readonly idleTimers: Map<number, NodeJS.Timeout>;
+  private readonly shardWorkers: Map<number, PooledWorker>;
+  private shardRequests: ShardRequest[];
+  private nextWorkerId: number = 1;
+  private memoryPollTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * Constructor for WorkerPool
+   * @param maxWorkers - Maximum number of workers kept alive at once
+   * @param executor - Starts the workers
+   * @param options - Worker data, default resource limits, memory budget and scaling bounds
+   */
+  constructor(maxWorkers: number, executor: Executor, options: WorkerPoolOptions = {}) {
+    this.maxWorkers = maxWorkers;
+    this.executor = executor;
+    this.options = options;
+    this.workers = new Map();
+    this.idleWorkers = [];
+    this.waitingRequests = [];
+    this.idleTimers = new Map();
+    this.shardWorkers = new Map();
+    this.shardRequests = [];
+
+    while (this.workers.size < (options.minWorkers ?? 0)) {
+      const pooledWorker = this.spawn(options.resourceLimits);
+      pooledWorker.worker.unref();
+      this.idleWorkers.push(pooledWorker);
+    }
+  }
+
+  /**
+   * Request a worker. The request is served immediately when an idle worker with
+   * the same resource limits exists or a new one may be started, otherwise when a
+   * worker is released.
+   * @param request - Callback receiving the worker
+   * @param resourceLimits - Resource limits the worker must have (default: the pool's)
+   * @returns Function that withdraws the request if it has not been served yet
+   */
+  acquire(request: WorkerRequest, resourceLimits: ResourceLimits | undefined = this.options.resourceLimits): () => void {
+    const key = limitsKey(resourceLimits);
+    const idleIndex = this.findIdleWorker(key, false);
+    if (idleIndex >= 0) {
+      const [idleWorker] = this.idleWorkers.splice(idleIndex, 1);
+      this.dispatch(idleWorker, request);
+      return () => {};
+    }
+
+    if (this.workers.size < this.getCapacity() && this.mayStartWorker()) {
+      this.dispatch(this.spawn(resourceLimits), request);
+      return () => {};
+    }
+
+    // Workers hosting shards are kept for their keys while the pool can grow, and shared once it cannot
+    const boundIndex = this.findIdleWorker(key, true);
+    if (boundIndex >= 0) {
+      const [boundWorker] = this.idleWorkers.splice(boundIndex, 1);
+      this.dispatch(boundWorker, request);
+      return () => {};
+    }
+
+    // An idle worker with other limits makes room for one with the right limits
+    const mismatchedIndex = this.idleWorkers.findIndex(idle => !this.isBound(idle));
+    if (mismatchedIndex >= 0) {
+      const [mismatchedWorker] = this.idleWorkers.splice(mismatchedIndex, 1);
+      this.remove(mismatchedWorker);
+      mismatchedWorker.worker.terminate();
+      this.dispatch(this.spawn(resourceLimits), request);
+      return () => {};
+    }
+
+    const waiting: WaitingRequest = {request, resourceLimits};
+    this.waitingRequests.push(waiting);
+    this.scheduleMemoryPoll();
+    return () => {
+      this.waitingRequests = this.waitingRequests.filter(entry => entry !== waiting);
+    };
+  }
+
+  /**
+   * Request the worker a shard of routing keys is bound to. Requests for a shard are served
+   * one at a time, in order. A shard without a worker is bound to an idle worker hosting no
+   * shard, a new worker, or else the next worker available, which may host other shards too.
+   * The binding lasts until the worker exits or the shard is unbound.
+   * @param shard - The shard
+   * @param request - Callback receiving the worker
+   * @returns Function that withdraws the request if it has not been served yet
+   */
+  acquireShard(shard: number, request: WorkerRequest): () => void {
+    const entry: ShardRequest = {shard, request};
+    const bound = this.shardWorkers.get(shard);
+    const idleIndex = bound ? this.idleWorkers.indexOf(bound) : -1;
+    if (idleIndex >= 0) {
+      this.idleWorkers.splice(idleIndex, 1);
+      this.dispatch(bound!, request);
+      return () => {};
+    }
+
+    const binding = !bound && this.shardRequests.some(waiting => waiting.shard === shard);
+    this.shardRequests.push(entry);
+    if (!bound && !binding) {
+      this.bindShard(entry);
+    }
+    return () => {
+      this.shardRequests = this.shardRequests.filter(waiting => waiting !== entry);
+      if (entry.cancelBinding) {
+        entry.cancelBinding();
+        entry.cancelBinding = undefined;
+        this.bindWaitingShards();
+      }
+    };
+  }
+
+  /**
+   * Get the worker a shard is bound to, if it has one
+   * @param shard - The shard
+   */
+  getShardWorker(shard: number): PooledWorker | undefined {
+    return this.shardWorkers.get(shard);
+  }
+
+  /**
+   * Unbind the shards from a given one on, e.g. after the number of shards shrank.
+   * Their workers are kept, and retired like any other once they host no shard.
+   * @param firstShard - The first shard to unbind
+   */
+  unbindShards(firstShard: number): void {
+    for (const [shard, pooledWorker] of this.shardWorkers) {
+      if (shard >= firstShard) {
+        this.shardWorkers.delete(shard);
+        if (this.idleWorkers.includes(pooledWorker) && !this.isBound(pooledWorker)) {
+          this.startIdleTimer(pooledWorker);
+        }
+      }
+    }
+  }
+
+  /**
+   * Return a worker to the pool once its task has finished
+   * @param pooledWorker - The worker to return
+   */
+  release(pooledWorker: PooledWorker): void {
+    if (!this.workers.has(pooledWorker.workerId)) {
+      return;
+    }
+
+    // Requests for the shards the worker hosts come first
+    const shardIndex = this.shardRequests.findIndex(waiting => this.shardWorkers.get(waiting.shard) === pooledWorker);
+    if (shardIndex >= 0) {
+      const [waiting] = this.shardRequests.splice(shardIndex, 1);
+      this.dispatch(pooledWorker, waiting.request);
+      return;
+    }
+
+    const key = limitsKey(pooledWorker.resourceLimits);
+    const matching = this.waitingRequests.find(waiting => limitsKey(waiting.resourceLimits) === key);
+    if (matching) {
+      this.waitingRequests = this.waitingRequests.filter(waiting => waiting !== matching);
+      this.dispatch(pooledWorker, matching.request);
+      return;
+    }
+
+    // Requests for other limits get a replacement worker
+    const bound = this.isBound(pooledWorker);
+    const waiting = bound ? undefined : this.waitingRequests.shift();
+    if (waiting) {
+      this.remove(pooledWorker);
+      pooledWorker.worker.terminate();
+      this.dispatch(this.spawn(waiting.resourceLimits), waiting.request);
+      return;
+    }
+
+    // Idle workers must not keep the process alive on their own
+    pooledWorker.worker.unref();
+    this.idleWorkers.push(pooledWorker);
+    if (!bound) {
+      this.startIdleTimer(pooledWorker);
+    }
+  }
+
+  /**
+   * Terminate a worker and remove it from the pool, e.g. after its task was aborted
+   * @param pooledWorker - The worker to discard
+   */
+  discard(pooledWorker: PooledWorker): void {
+    if (this.remove(pooledWorker)) {
+      pooledWorker.worker.terminate();
+    }
+    this.serveWaitingRequests();
+  }
+
+  /**
+   * Get the number of live workers, busy or idle
+   */
+  getWorkerCount(): number {
+    return this.workers.size;
+  }
+
+  /**
+   * Get the number of idle workers
+   */
+  getIdleWorkerCount(): number {
+    return this.idleWorkers.length;
+  }
+
+  /**
+   * Terminate every worker. Pending requests stay queued and are served by
+   * freshly spawned workers.
+   */
+  terminate(): Promise<void> {
+    const terminations: Promise<number>[] = [];
+    for (const [, pooledWorker] of this.workers) {
+      terminations.push(pooledWorker.worker.terminate());
+    }
+    this.workers.clear();
+    this.shardWorkers.clear();
+    this.idleWorkers = [];
+    this.idleTimers.forEach(timer => clearTimeout(timer));
+    this.idleTimers.clear();
+    this.serveWaitingRequests();
+    return Promise.all(terminations).then(() => undefined);
+  }
+
+  private dispatch(pooledWorker: PooledWorker, request: WorkerRequest): void {
+    this.clearIdleTimer(pooledWorker);
+    pooledWorker.worker.ref();
+    request(pooledWorker);
+  }
+
+  /**
+   * Terminate an idle worker once the idle timeout elapses, unless the pool is down to minWorkers
+   */
+  private startIdleTimer(pooledWorker: PooledWorker): void {
+    const idleTimeoutMs = this.options.idleTimeoutMs;
+    if (idleTimeoutMs === undefined) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(pooledWorker.workerId);
+      if (this.workers.size > (this.options.minWorkers ?? 0) && this.remove(pooledWorker)) {
+        pooledWorker.worker.terminate();
+      }
+    }, idleTimeoutMs);
+    timer.unref();
+    this.idleTimers.set(pooledWorker.workerId, timer);
+  }
+
+  private clearIdleTimer(pooledWorker: PooledWorker): void {
+    clearTimeout(this.idleTimers.get(pooledWorker.workerId));
+    this.idleTimers.delete(pooledWorker.workerId);
+  }
+
+  /**
+   * Check whether a worker hosts a shard
+   */
+  private isBound(pooledWorker: PooledWorker): boolean {
+    for (const [, shardWorker] of this.shardWorkers) {
+      if (shardWorker === pooledWorker) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Find the most recently idle worker with given resource limits
+   * @param key - Key of the resource limits
+   * @param bound - Whether the worker must host a shard, or must host none
+   * @returns Index in idleWorkers, or -1 if there is none
+   */
+  private findIdleWorker(key: string, bound: boolean): number {
+    for (let i = this.idleWorkers.length - 1; i >= 0; i--) {
+      const idle = this.idleWorkers[i];
+      if (limitsKey(idle.resourceLimits) === key && this.isBound(idle) === bound) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Bind a shard to a worker: an idle worker hosting no shard, else a new worker while the
+   * pool is below capacity, else the next worker available, which may host other shards too.
+   * Serve the shard's first waiting request with it.
+   */
+  private bindShard(entry: ShardRequest): void {
+    let served = false;
+    const bind = (pooledWorker: PooledWorker) => {
+      served = true;
+      entry.cancelBinding = undefined;
+      this.shardRequests = this.shardRequests.filter(waiting => waiting !== entry);
+      this.shardWorkers.set(entry.shard, pooledWorker);
+      entry.request(pooledWorker);
+    };
+
+    const unboundIndex = this.findIdleWorker(limitsKey(this.options.resourceLimits), false);
+    if (unboundIndex >= 0) {
+      const [idleWorker] = this.idleWorkers.splice(unboundIndex, 1);
+      this.dispatch(idleWorker, bind);
+      return;
+    }
+    if (this.workers.size < this.getCapacity() && this.mayStartWorker()) {
+      this.dispatch(this.spawn(this.options.resourceLimits), bind);
+      return;
+    }
+    const cancel = this.acquire(bind);
+    if (!served) {
+      entry.cancelBinding = cancel;
+    }
+  }
+
+  /**
+   * Bind the shards that lost their worker, or whose binding request was withdrawn,
+   * to serve the requests waiting for them
+   */
+  private bindWaitingShards(): void {
+    for (const waiting of [...this.shardRequests]) {
+      const binding = this.shardRequests.some(entry => entry.shard === waiting.shard && entry.cancelBinding);
+      if (this.shardRequests.includes(waiting) && !this.shardWorkers.has(waiting.shard) && !binding) {
+        this.bindShard(waiting);
+      }
+    }
+  }
+
+  /**
+   * Get the maximum number of live workers: maxWorkers, plus what the executor runs beyond it
+   */
+  private getCapacity(): number {
+    return this.maxWorkers + (this.executor.getExtraCapacity?.() ?? 0);
+  }
+
+  private spawn(resourceLimits: ResourceLimits | undefined): PooledWorker {
+    let localWorkers = 0;
+    this.workers.forEach(pooledWorker => localWorkers += pooledWorker.worker.remote ? 0 : 1);
+    const pooledWorker: PooledWorker = {
+      workerId: this.nextWorkerId++,
+      worker: this.executor.spawn({
+        workerData: this.options.workerData,
+        resourceLimits,
+        overflow: localWorkers >= this.maxWorkers
+      }),
+      resourceLimits
+    };
+
+    // Workers that die on their own are forgotten so a replacement can be spawned
+    pooledWorker.worker.on('error', () => this.remove(pooledWorker));
+    pooledWorker.worker.on('exit', () => {
+      this.remove(pooledWorker);
+      this.serveWaitingRequests();
+    });
+
+    this.workers.set(pooledWorker.workerId, pooledWorker);
+    return pooledWorker;
+  }
+
+  private remove(pooledWorker: PooledWorker): boolean {
+    if (this.workers.get(pooledWorker.workerId) !== pooledWorker) {
+      return false;
+    }
+    this.workers.delete(pooledWorker.workerId);
+    this.idleWorkers = this.idleWorkers.filter(idle => idle !== pooledWorker);
+    this.clearIdleTimer(pooledWorker);
+    // The shards it hosted are bound again when next requested
+    for (const [shard, shardWorker] of this.shardWorkers) {
+      if (shardWorker === pooledWorker) {
+        this.shardWorkers.delete(shard);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Serve waiting requests with new workers, e.g. after the executor's extra capacity grew
+   */
+  serveWaitingRequests(): void {
+    this.bindWaitingShards();
+    while (this.waitingRequests.length > 0 && this.workers.size < this.getCapacity() && this.mayStartWorker()) {
+      const waiting = this.waitingRequests.shift()!;
+      this.dispatch(this.spawn(waiting.resourceLimits), waiting.request);
+    }
+    this.scheduleMemoryPoll();
+  }
+
+  /**
+   * Check the memory budget. The first worker may always start, so a pool never stalls for good.
+   */
+  private mayStartWorker(): boolean {
+    const budget = this.options.memoryBudgetBytes;
+    return budget === undefined || this.workers.size === 0 || process.memoryUsage.rss() < budget;
+  }
+
+  /**
+   * Re-check the memory budget later while requests are held back by it
+   */
+  private scheduleMemoryPoll(): void {
+    const heldBack = this.waitingRequests.length > 0 && this.workers.size < this.getCapacity();
+    if (heldBack && !this.memoryPollTimer) {
+      this.memoryPollTimer = setTimeout(() => {
+        this.memoryPollTimer = undefined;
+        this.serveWaitingRequests();
+      }, MEMORY_POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * Identify a set of resource limits, so workers are only reused for tasks with the same limits
+ */
+function limitsKey(resourceLimits: ResourceLimits = {}): string {
+  return [
+    resourceLimits.maxOldGenerationSizeMb,
+    resourceLimits.maxYoungGenerationSizeMb,
+    resourceLimits.codeRangeSizeMb,
+    resourceLimits.stackSizeMb
+  ].join('/');
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Worker agent process: connects to an AgentCoordinator and runs tasks for its pool.
+ *
+ *   rx-thread-pool-agent --port 7400 [--host 127.0.0.1] [--capacity 4] [--name box-2] [--token secret]
+ *
+ * The token may also be set in the RX_THREAD_POOL_AGENT_TOKEN environment variable.
+ * The process exits once the coordinator closes the connection.
+ */
+import { WorkerAgent } from './WorkerAgent';
+
+const USAGE = 'Usage: rx-thread-pool-agent --port <port> [--host <host>] [--capacity <workers>] [--name <name>] [--token <secret>]';
+
+/**
+ * Read the --name value options of the command line
+ */
+function parseArgs(args: string[]): Map<string, string> {
+  const options = new Map<string, string>();
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i];
+    const value = args[i + 1];
+    if (!name.startsWith('--') || value === undefined) {
+      throw new Error(USAGE);
+    }
+    options.set(name.slice(2), value);
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const port = Number(options.get('port'));
+  if (!Number.isInteger(port) || port < 1) {
+    throw new Error(USAGE);
+  }
+
+  const agent = new WorkerAgent({
+    port,
+    host: options.get('host'),
+    capacity: options.has('capacity') ? Number(options.get('capacity')) : undefined,
+    name: options.get('name'),
+    token: options.get('token') ?? process.env.RX_THREAD_POOL_AGENT_TOKEN
+  });
+
+  agent.start().then(
+    () => console.log(`Worker agent connected to ${options.get('host') ?? '127.0.0.1'}:${port}`),
+    error => {
+      console.error(`Worker agent failed to connect: ${error.message}`);
+      process.exit(1);
+    }
+  );
+  agent.getClosed().then(() => process.exit(0));
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => agent.stop());
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(2);
+}
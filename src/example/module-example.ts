@@ -0,0 +1,41 @@
+import {of} from 'rxjs';
+import * as path from 'path';
+import {ModuleThreadTask, ThreadPool, ThreadQueue} from '../index';
+
+console.log('=== Module-Based Thread Task Example ===\n');
+
+// The worker loads windowStatistics from the compiled module instead of rebuilding it from source
+const statisticsTask = new ModuleThreadTask(
+  path.join(__dirname, 'tasks', 'analysis-tasks'),
+  'windowStatistics',
+  of(2, 4, 4, 4, 5, 5, 7, 9, 1, 2, 3, 4)
+);
+
+const queue = new ThreadQueue('module-queue');
+queue.enqueue(statisticsTask);
+
+const pool = new ThreadPool([queue]);
+const result$ = pool.start();
+
+if (result$) {
+  result$.subscribe({
+    next: (result) => {
+      if (result.error) {
+        console.error(`Thread ${result.threadId} error:`, result.error);
+      } else if (result.completed) {
+        console.log(`Thread ${result.threadId} completed`);
+      } else {
+        console.log(`Thread ${result.threadId} result:`, result.value);
+      }
+    },
+    error: (error) => {
+      console.error('Pool error:', error);
+    },
+    complete: () => {
+      console.log('\nModule task example complete!');
+      pool.terminateAll();
+    }
+  });
+} else {
+  console.log('No tasks to execute');
+}
@@ -0,0 +1,22 @@
+import {bufferCount, map, Observable} from 'rxjs';
+import {mean, standardDeviation} from './statistics';
+
+// Thread functions loaded by ModuleThreadTask. Unlike plain ThreadTask functions they are
+// never serialized, so they can use imports (bufferCount, the statistics helpers) and module state.
+
+const WINDOW_SIZE = 4;
+
+/**
+ * Summarize the input numbers in windows of WINDOW_SIZE values
+ */
+export function windowStatistics(input: Observable<number>, threadId: number) {
+  return input.pipe(
+    bufferCount(WINDOW_SIZE),
+    map(window => ({
+      threadId,
+      window,
+      mean: mean(window),
+      standardDeviation: standardDeviation(window)
+    }))
+  );
+}
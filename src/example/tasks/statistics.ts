@@ -0,0 +1,9 @@
+// Plain helpers imported by the module-based thread functions in analysis-tasks.ts
+
+export const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
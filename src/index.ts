@@ -4,6 +4,22 @@
  * A TypeScript-based framework for managing worker thread pools with RxJS Observables
  */
 
-export { AbstractThreadTask, ThreadTask, ThreadFunc } from './AbstractThreadTask';
-export { ThreadQueue } from './ThreadQueue';
-export { ThreadPool, ThreadResult } from './ThreadPool';
+export { AbstractThreadTask, ThreadTask, ThreadFunc, ThreadFuncSource, ThreadTaskOptions, ForkJoin, TaskOutput } from './AbstractThreadTask';
+export { ModuleThreadTask } from './ModuleThreadTask';
+export { ActorTask, Actor, ActorFunc, ActorTaskOptions } from './ActorTask';
+export { ThreadQueue, ThreadQueueOptions, QueuedTask } from './ThreadQueue';
+export { ThreadPool, ThreadPoolOptions, ThreadPoolScaling, ThreadResult, ThreadValueResult, ThreadErrorResult, ThreadCompleteResult, GroupedThreadResult, QueueOutput, ThreadStatus, SubmittedTask, RunOptions, ParallelOptions, StartOptions, ResultOrder, ShutdownOptions, ShutdownSummary, GraphTaskResult, SkippedGraphTaskResult, getCurrentTaskId } from './ThreadPool';
+export { TaskGraph, GraphTaskOptions, GraphInputMode } from './TaskGraph';
+export { RebalanceEvent } from './KeyRouter';
+export { ConcurrencyGovernor } from './ConcurrencyGovernor';
+export { RetryPolicy } from './RetryPolicy';
+export { ThreadTaskError, SerializedError } from './ThreadTaskError';
+export { WorkerContext } from './WorkerContext';
+export { Executor, ExecutorWorker, ExecutorSpawnOptions, WorkerThreadExecutor, InlineExecutor, createWorkerLostError } from './Executor';
+export { ChildProcessExecutor, ChildProcessExecutorOptions } from './ChildProcessExecutor';
+export { AgentCoordinator, AgentCoordinatorOptions, AgentInfo } from './AgentCoordinator';
+export { WorkerAgent, WorkerAgentOptions } from './WorkerAgent';
+export { transfer, createSharedArray, TypedArrayConstructor, SharedArrayLike } from './Transfer';
+export { ThreadPoolEvent, TaskQueuedEvent, TaskStartedEvent, TaskFinishedEvent, PoolMetrics, PoolMetricsSnapshot, Histogram, HistogramSnapshot } from './PoolMetrics';
+export { PrometheusExporter, PrometheusExporterOptions } from './PrometheusExporter';
+export { OpenTelemetryExporter, OpenTelemetryExporterOptions } from './OpenTelemetryExporter';
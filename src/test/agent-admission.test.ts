@@ -0,0 +1,110 @@
+import {EventEmitter} from 'events';
+import * as net from 'net';
+import {filter, firstValueFrom} from 'rxjs';
+import {AgentCoordinator, Executor, ExecutorWorker, WorkerAgent} from '../index';
+import {AgentFrame, readFrames, writeFrame} from '../AgentProtocol';
+import {check, runChecks} from './checks';
+
+console.log('=== Agent Admission Test ===\n');
+
+const TOKEN = 'secret';
+
+/**
+ * Connect to a coordinator, send a frame, and wait for the coordinator to close the connection
+ * @returns Whether the connection was closed within a second
+ */
+function sendFirstFrame(port: number, frame: unknown): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = net.connect(port, '127.0.0.1', () => writeFrame(socket, frame as AgentFrame));
+    const timer = setTimeout(() => {
+      socket.destroy();
+      resolve(false);
+    }, 1000);
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+  });
+}
+
+/**
+ * Executor whose workers do nothing until terminated
+ */
+class IdleExecutor implements Executor {
+  readonly name = 'idle';
+  readonly inline = false;
+
+  spawn(): ExecutorWorker {
+    const worker = Object.assign(new EventEmitter(), {
+      postMessage: () => {},
+      terminate: () => {
+        worker.emit('exit', 0);
+        return Promise.resolve(0);
+      },
+      ref: () => {},
+      unref: () => {}
+    });
+    return worker;
+  }
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('Connections introducing themselves to a coordinator with a token:');
+  const coordinator = new AgentCoordinator({port: 0, token: TOKEN});
+  const port = await coordinator.start();
+  try {
+    const rejected: [string, unknown][] = [
+      ['wrong token', {type: 'hello', capacity: 1, name: 'intruder', token: 'guess'}],
+      ['missing token', {type: 'hello', capacity: 1, name: 'intruder'}],
+      ['name not a string', {type: 'hello', capacity: 1, name: 42, token: TOKEN}],
+      ['name too long', {type: 'hello', capacity: 1, name: 'x'.repeat(1000), token: TOKEN}],
+      ['capacity not an integer', {type: 'hello', capacity: 1.5, name: 'fractional', token: TOKEN}],
+      ['not a hello', {type: 'exit', slot: 1, code: 0}],
+      ['not an object', 'hello']
+    ];
+    for (const [name, frame] of rejected) {
+      passed = check(name, await sendFirstFrame(port, frame), 'connection closed') && passed;
+    }
+    passed = check('nobody admitted', coordinator.getAgents().length === 0, `${coordinator.getAgents().length} agent(s)`) && passed;
+
+    const agent = new WorkerAgent({port, capacity: 1, name: 'trusted', token: TOKEN, executor: new IdleExecutor()});
+    await agent.start();
+    await firstValueFrom(coordinator.getCapacityChanges().pipe(filter(capacity => capacity === 1)));
+    passed = check('right token', coordinator.getAgents()[0]?.name === 'trusted', 'agent admitted') && passed;
+    await agent.stop();
+  } finally {
+    await coordinator.stop();
+  }
+
+  console.log('\nA coordinator asking an agent of capacity 2 for 3 workers:');
+  const frames: AgentFrame[] = [];
+  const server = net.createServer(socket => readFrames<AgentFrame>(socket, frame => {
+    frames.push(frame);
+    if (frame.type === 'hello') {
+      [1, 2, 3].forEach(slot => writeFrame(socket, {type: 'spawn', slot, workerData: {}}));
+    }
+  }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const agent = new WorkerAgent({port: (server.address() as net.AddressInfo).port, capacity: 2, executor: new IdleExecutor()});
+  try {
+    await agent.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const refused = frames.filter(frame => frame.type !== 'hello' && frame.slot === 3);
+    const error = refused.find(frame => frame.type === 'error');
+    const exit = refused.find(frame => frame.type === 'exit');
+    const others = frames.filter(frame => frame.type !== 'hello' && frame.slot !== 3);
+    passed = check('third worker refused', error?.type === 'error' && exit?.type === 'exit' && exit.code === 1,
+      error?.type === 'error' ? error.error.message : 'no error') && passed;
+    passed = check('first two started', others.length === 0, `${others.length} frame(s) about them`) && passed;
+  } finally {
+    await agent.stop();
+    server.close();
+  }
+
+  return passed;
+}
+
+runChecks('agent admission', main);
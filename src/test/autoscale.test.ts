@@ -0,0 +1,47 @@
+import {ThreadPool, ThreadQueue} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Autoscaling Test ===\n');
+
+const IDLE_TIMEOUT_MS = 300;
+
+/**
+ * Run tasks at once on a pool, then wait past the idle timeout
+ * @returns Number of live workers at the start, with the tasks running, and after the wait
+ */
+async function runBurst(pool: ThreadPool, tasks: number): Promise<[number, number, number]> {
+  const before = pool.getPooledWorkerCount();
+  const submitted = Array.from({length: tasks}, () => pool.submit(createSleepTask(200)));
+  const busy = pool.getPooledWorkerCount();
+  await Promise.all(submitted.map(task => task.toPromise()));
+  await new Promise(resolve => setTimeout(resolve, 2 * IDLE_TIMEOUT_MS));
+  return [before, busy, pool.getPooledWorkerCount()];
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log(`Autoscaling pool from 1 to 3 threads, idle timeout ${IDLE_TIMEOUT_MS} ms:`);
+  const scaling = new ThreadPool([new ThreadQueue('scaling')], {threads: {min: 1, max: 3, idleTimeoutMs: IDLE_TIMEOUT_MS}});
+  try {
+    const [before, busy, after] = await runBurst(scaling, 3);
+    passed = check('min workers started', before === 1, `${before} worker(s) before any task`) && passed;
+    passed = check('scaled up', busy === 3, `${busy} worker(s) while 3 tasks run`) && passed;
+    passed = check('idle workers retired', after === 1, `${after} worker(s) once idle`) && passed;
+  } finally {
+    await scaling.shutdown();
+  }
+
+  console.log('\nFixed pool of 2 threads:');
+  const fixed = new ThreadPool([new ThreadQueue('fixed')], {threads: 2});
+  try {
+    const [, busy, after] = await runBurst(fixed, 2);
+    passed = check('idle workers kept', busy === 2 && after === 2, `${busy} worker(s) busy, ${after} once idle`) && passed;
+  } finally {
+    await fixed.shutdown();
+  }
+
+  return passed;
+}
+
+runChecks('autoscaling', main);
@@ -0,0 +1,58 @@
+import {map, mergeMap, Observable, of, timer} from 'rxjs';
+import {ThreadTask, ThreadTaskOptions} from '../index';
+
+/**
+ * Print the outcome of a check
+ * @param name - What was checked
+ * @param passed - Whether the check passed
+ * @param detail - What was observed
+ * @returns passed
+ */
+export function check(name: string, passed: boolean, detail: string): boolean {
+  console.log(`  ${passed ? '✅' : '❌'} ${name}: ${detail}`);
+  return passed;
+}
+
+/**
+ * Run the checks of a test script, then exit with 0 if all of them passed and 1 otherwise
+ * @param subject - What the script checks, e.g. 'scheduling'
+ * @param main - Runs the checks, resolving with whether all of them passed
+ */
+export function runChecks(subject: string, main: () => Promise<boolean>): void {
+  let finished = false;
+  // Nothing left to wait for while a check still awaits something: it would never finish
+  process.once('exit', () => {
+    if (!finished) {
+      console.log(`\n❌ Exited before the ${subject} checks finished`);
+      process.exitCode = 1;
+    }
+  });
+
+  main().then(passed => {
+    finished = true;
+    console.log(passed ? `\n✅ All ${subject} checks passed` : `\n❌ ${subject[0].toUpperCase()}${subject.slice(1)} checks failed`);
+    process.exit(passed ? 0 : 1);
+  }).catch(error => {
+    finished = true;
+    console.error('❌ Test failed with error:', error);
+    process.exit(1);
+  });
+}
+
+/**
+ * A task that waits, then emits its delay
+ * @param delayMs - How long the task runs
+ * @param options - Options of the task, e.g. a name to identify its events
+ */
+export function createSleepTask(
+  delayMs: number,
+  options: ThreadTaskOptions = {}
+): ThreadTask<number, Observable<number>, number, Observable<number>> {
+  return new ThreadTask(
+    (input$: Observable<number>) => input$.pipe(
+      mergeMap(ms => timer(ms).pipe(map(() => ms)))
+    ),
+    of(delayMs),
+    options
+  );
+}
@@ -0,0 +1,74 @@
+import {ChildProcess, fork} from 'child_process';
+import * as path from 'path';
+import {filter, firstValueFrom, lastValueFrom, map, mergeMap, Observable, of, timer, toArray} from 'rxjs';
+import {AgentCoordinator, ThreadPool, ThreadQueue, ThreadResult, ThreadTask} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Distributed Worker Agents Test ===\n');
+
+const AGENT_SCRIPT = path.join(__dirname, '..', 'agent.js');
+const AGENT_CAPACITY = 2;
+
+/**
+ * Start a worker agent process connecting to the coordinator
+ */
+function startAgent(port: number, name: string): ChildProcess {
+  return fork(AGENT_SCRIPT, ['--port', String(port), '--capacity', String(AGENT_CAPACITY), '--name', name], {
+    stdio: ['ignore', 'inherit', 'inherit', 'ipc']
+  });
+}
+
+/**
+ * A task that waits, then emits the id of the process it ran in
+ */
+function createPidTask(delayMs: number): ThreadTask<number, Observable<number>, number, Observable<number>> {
+  return new ThreadTask(
+    (input$: Observable<number>) => input$.pipe(
+      mergeMap(ms => timer(ms).pipe(map(() => process.pid)))
+    ),
+    of(delayMs)
+  );
+}
+
+async function main(): Promise<boolean> {
+  const coordinator = new AgentCoordinator({port: 0});
+  const port = await coordinator.start();
+  console.log(`Coordinator listening on port ${port}`);
+
+  const agents = [startAgent(port, 'agent-1'), startAgent(port, 'agent-2')];
+  await firstValueFrom(coordinator.getCapacityChanges().pipe(filter(capacity => capacity === 2 * AGENT_CAPACITY)));
+  console.log(`Agents connected: ${coordinator.getAgents().map(agent => agent.name).join(', ')}\n`);
+
+  const pool = new ThreadPool([new ThreadQueue('distributed')], {threads: 1, executor: coordinator});
+  let passed = true;
+
+  try {
+    console.log('Spreading tasks over the local thread and the agents:');
+    const submitted = [1, 2, 3, 4, 5].map(() => pool.submit(createPidTask(300)));
+    const pids = (await Promise.all(submitted.map(task => task.toPromise()))).flat();
+    const agentPids = new Set(agents.map(agent => agent.pid));
+    passed = check('local thread', pids.includes(process.pid), `pids ${pids.join(', ')}`) && passed;
+    passed = check('both agents', [...agentPids].every(pid => pids.includes(pid!)), `agent pids ${[...agentPids].join(', ')}`) && passed;
+
+    console.log('\nDisconnecting an agent while it runs tasks:');
+    const running = [1, 2, 3, 4, 5].map(() => pool.submit(createPidTask(1000)));
+    const results = running.map(task => lastValueFrom(task.results.pipe(toArray())));
+    await new Promise(resolve => setTimeout(resolve, 300));
+    agents[0].kill();
+    const outcomes: ThreadResult[][] = await Promise.all(results);
+
+    const completed = outcomes.filter(taskResults => taskResults[taskResults.length - 1].status === 'completed');
+    const reassigned = outcomes.filter(taskResults => taskResults.some(result => result.attempt > 1));
+    passed = check('every task completed', completed.length === running.length, `${completed.length}/${running.length}`) && passed;
+    passed = check('lost tasks reassigned', reassigned.length > 0, `${reassigned.length} task(s) ran again`) && passed;
+    passed = check('agent removed', coordinator.getExtraCapacity() === AGENT_CAPACITY,
+      `extra capacity ${coordinator.getExtraCapacity()}`) && passed;
+  } finally {
+    await pool.shutdown();
+    await coordinator.stop();
+    agents.forEach(agent => agent.kill());
+  }
+  return passed;
+}
+
+runChecks('distributed agent', main);
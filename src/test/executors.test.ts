@@ -0,0 +1,41 @@
+import {map, Observable} from 'rxjs';
+import {ChildProcessExecutor, Executor, InlineExecutor, ThreadPool, ThreadQueue} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Executors Test ===\n');
+
+/**
+ * Run a task on a pool of an executor, then shut the pool down
+ * @returns Whether every check passed
+ */
+async function checkExecutor(executor: Executor, expectSameProcess: boolean): Promise<boolean> {
+  let passed = true;
+  const pool = new ThreadPool([new ThreadQueue(executor.name)], {threads: 2, executor});
+
+  const results = await pool.run((input$: Observable<number>) => input$.pipe(map(value => [value * 2, process.pid])), [1, 2, 3]);
+  passed = check('values', results.map(([value]) => value).join(',') === '2,4,6', results.map(([value]) => value).join(', ')) && passed;
+  const pids = new Set(results.map(([, pid]) => pid));
+  const sameProcess = pids.size === 1 && pids.has(process.pid);
+  passed = check(expectSameProcess ? 'ran in this process' : 'ran in another process', sameProcess === expectSameProcess,
+    `pid ${[...pids].join(', ')}, this process ${process.pid}`) && passed;
+
+  // Let the workers go idle before shutting down, as a long-lived pool would
+  await new Promise(resolve => setTimeout(resolve, 100));
+  const summary = await pool.shutdown();
+  passed = check('shut down', pool.getPooledWorkerCount() === 0, `${JSON.stringify(summary)}, ${pool.getPooledWorkerCount()} worker(s) left`) && passed;
+  return passed;
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('ChildProcessExecutor:');
+  passed = await checkExecutor(new ChildProcessExecutor(), false) && passed;
+
+  console.log('\nInlineExecutor:');
+  passed = await checkExecutor(new InlineExecutor(), true) && passed;
+
+  return passed;
+}
+
+runChecks('executor', main);
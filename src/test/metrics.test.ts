@@ -0,0 +1,67 @@
+import {filter, firstValueFrom, map, race, timer} from 'rxjs';
+import {PoolMetricsSnapshot, ThreadPool, ThreadQueue} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Pool Metrics Test ===\n');
+
+function describe(metrics: PoolMetricsSnapshot): string {
+  return `queued ${metrics.queued}, started ${metrics.started}, finished ${metrics.finished}, ` +
+    `running ${metrics.running}, failed ${JSON.stringify(metrics.failed)}`;
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('Cancelling a running task and a queued one on a single thread:');
+  const cancelPool = new ThreadPool([new ThreadQueue('cancel')], {threads: 1});
+  try {
+    const running = createSleepTask(2000);
+    const queued = createSleepTask(2000);
+    const started = firstValueFrom(cancelPool.getEvents().pipe(filter(event => event.type === 'started')));
+    const runningResult = cancelPool.submit(running).toPromise().catch(() => undefined);
+    const queuedResult = cancelPool.submit(queued).toPromise().catch(() => undefined);
+    await started;
+    const startedAt = Date.now();
+    queued.cancel();
+    await queuedResult;
+    const queuedMs = Date.now() - startedAt;
+    running.cancel();
+    await runningResult;
+
+    const metrics = cancelPool.getMetrics();
+    passed = check('queued task finishes right away', queuedMs < 500, `after ${queuedMs} ms`) && passed;
+    passed = check('counters', metrics.queued === 2 && metrics.started === 1 && metrics.finished === 0 &&
+      metrics.failed.cancelled === 2, describe(metrics)) && passed;
+    passed = check('nothing running', metrics.running === 0, `running ${metrics.running}`) && passed;
+  } finally {
+    await cancelPool.shutdown();
+  }
+
+  console.log('\nUnsubscribing from start() while a task runs:');
+  const queue = new ThreadQueue('unsubscribe');
+  queue.enqueue(createSleepTask(2000));
+  const unsubscribePool = new ThreadPool([queue], {threads: 1});
+  try {
+    const started = firstValueFrom(unsubscribePool.getEvents().pipe(filter(event => event.type === 'started')));
+    const subscription = unsubscribePool.start()!.subscribe();
+    await started;
+    // The event is emitted while unsubscribing, if at all
+    const failed = firstValueFrom(race(
+      unsubscribePool.getEvents().pipe(filter(event => event.type === 'failed')),
+      timer(1000).pipe(map(() => undefined))
+    ));
+    subscription.unsubscribe();
+    const event = await failed;
+
+    const metrics = unsubscribePool.getMetrics();
+    const reported = event?.type === 'failed' && event.status === 'cancelled' && event.started;
+    passed = check('attempt reported', reported, event?.type === 'failed' ? `failed ${event.status}` : 'no event') && passed;
+    passed = check('nothing running', metrics.running === 0, describe(metrics)) && passed;
+  } finally {
+    await unsubscribePool.shutdown();
+  }
+
+  return passed;
+}
+
+runChecks('metrics', main);
@@ -0,0 +1,40 @@
+import {map, Observable} from 'rxjs';
+import {ThreadPool, ThreadQueue, ThreadTaskError} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Promise API Test ===\n');
+
+async function main(): Promise<boolean> {
+  const pool = new ThreadPool([new ThreadQueue('promises')], {threads: 2});
+  let passed = true;
+
+  try {
+    console.log('run():');
+    const squares = await pool.run((input$: Observable<number>) => input$.pipe(map(value => value * value)), [1, 2, 3]);
+    passed = check('output values', squares.join(',') === '1,4,9', `[${squares.join(', ')}]`) && passed;
+    const failure = await pool.run((input$: Observable<number>) => input$.pipe(map(() => {
+      throw new Error('Intentional failure');
+    })), [1]).then(() => undefined, (error: unknown) => error);
+    passed = check('rejected with a ThreadTaskError', failure instanceof ThreadTaskError,
+      failure instanceof Error ? failure.message : 'resolved') && passed;
+
+    console.log('\nmap():');
+    const values = Array.from({length: 10}, (_, index) => index);
+    const doubled = await pool.map((value: number) => value * 2, values, {chunkSize: 3});
+    passed = check('values in input order', doubled.join(',') === values.map(value => value * 2).join(','),
+      `[${doubled.join(', ')}]`) && passed;
+    const empty = await pool.map((value: number) => value * 2, []);
+    passed = check('no values', empty.length === 0, `[${empty.join(', ')}]`) && passed;
+
+    console.log('\nreduce():');
+    const sum = await pool.reduce((total: number, value: number) => total + value, (a, b) => a + b, values, 0, {chunkSize: 4});
+    passed = check('sum of chunks', sum === 45, String(sum)) && passed;
+    const none = await pool.reduce((total: number, value: number) => total + value, (a, b) => a + b, [], 7);
+    passed = check('initial value without values', none === 7, String(none)) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+  return passed;
+}
+
+runChecks('promise API', main);
@@ -1,6 +1,6 @@
 import * as fs from 'node:fs'
 import {mergeMap, Observable, of} from 'rxjs';
-import {ThreadPool, ThreadQueue, ThreadTask} from '../index';
+import {createSharedArray, ThreadPool, ThreadQueue, ThreadTask} from '../index';
 import {ts} from "./timestamp";
 
 const CSV_OUTPUT_FILE_NAME_SUFFIX = "-recursive-matrix-multiply.csv";
@@ -38,8 +38,14 @@ const csvResults: Array<ResultRecord> = [];
 type Matrix = number[][];
 
 interface MatrixTask {
-    a: Matrix;
-    b: Matrix;
+    a: Float64Array;       // ⭐ Shared by every thread: n x n, row-major, backed by a SharedArrayBuffer
+    b: Float64Array;       // ⭐ Shared by every thread: n x n, row-major, backed by a SharedArrayBuffer
+    n: number;             // Row length of a and b
+    aRow: number;          // Top left corner of the block of a to multiply
+    aCol: number;
+    bRow: number;          // Top left corner of the block of b to multiply
+    bCol: number;
+    size: number;          // Size of both blocks
     depth: number;
     blockSize: number;
     taskId: string;
@@ -48,7 +54,7 @@ interface MatrixTask {
 
 interface MatrixResult {
     threadId: number;
-    result: Matrix;
+    result: Float64Array;  // size x size, row-major, transferred back without copying
     depth: number;
     taskId: string;
     threadsCreated: number;
@@ -92,8 +98,9 @@ function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
  * Note: The thread function must be self-contained (no external closures)
  */
 function createRecursiveMatrixTask(
-    a: Matrix,
-    b: Matrix,
+    a: Float64Array,
+    b: Float64Array,
+    n: number,
     depth: number,
     blockSize: number,
     taskId: string
@@ -104,65 +111,34 @@ function createRecursiveMatrixTask(
             mergeMap(async (task) => {
                 // ThreadTask, ThreadQueue, ThreadPool, of, mergeMap are available in worker context
 
-                const size = task.a.length;
+                const size = task.size;
                 console.log(`[Depth ${task.depth}] Thread ${threadId} multiplying ${size}x${size} matrices (task: ${task.taskId})`);
 
                 // Helper functions defined in worker scope
-                function multiplyMatrices(a: any[][], b: any[][]): any[][] {
-                    const rows = a.length;
-                    const cols = b[0].length;
-                    const common = b.length;
+                // Blocks are read in place from the shared matrices: nothing is copied into the thread
+                function multiplyBlocks(t: MatrixTask): Float64Array {
                     console.log(`[Depth ${task.depth}] Thread ${threadId} calculating ${size}x${size} result`);
-                    const result: any[][] = Array.from({length: rows}, () => Array(cols).fill(0));
-                    for (let i = 0; i < rows; i++) {
-                        for (let j = 0; j < cols; j++) {
-                            for (let k = 0; k < common; k++) {
-                                result[i][j] += a[i][k] * b[k][j];
+                    const result = new Float64Array(size * size);
+                    for (let i = 0; i < size; i++) {
+                        const aOffset = (t.aRow + i) * t.n + t.aCol;
+                        const resultOffset = i * size;
+                        for (let k = 0; k < size; k++) {
+                            const aik = t.a[aOffset + k];
+                            const bOffset = (t.bRow + k) * t.n + t.bCol;
+                            for (let j = 0; j < size; j++) {
+                                result[resultOffset + j] += aik * t.b[bOffset + j];
                             }
                         }
                     }
                     return result;
                 }
 
-                function addMatrices(a: any[][], b: any[][]): any[][] {
-                    return a.map((row, i) => row.map((val, j) => val + b[i][j]));
-                }
-
-                function splitMatrix(m: any[][]) {
-                    const size = m.length;
-                    const mid = Math.floor(size / 2);
-                    const topLeft: any[][] = [];
-                    const topRight: any[][] = [];
-                    const bottomLeft: any[][] = [];
-                    const bottomRight: any[][] = [];
-                    for (let i = 0; i < mid; i++) {
-                        topLeft.push(m[i].slice(0, mid));
-                        topRight.push(m[i].slice(mid));
-                    }
-                    for (let i = mid; i < size; i++) {
-                        bottomLeft.push(m[i].slice(0, mid));
-                        bottomRight.push(m[i].slice(mid));
-                    }
-                    return {topLeft, topRight, bottomLeft, bottomRight};
-                }
-
-                function combineMatrix(topLeft: any[][], topRight: any[][], bottomLeft: any[][], bottomRight: any[][]): any[][] {
-                    const size = topLeft.length + bottomLeft.length;
-                    const result: any[][] = Array.from({length: size}, () => Array(size).fill(0));
-                    const mid = topLeft.length;
+                function addBlocksInto(result: Float64Array, row: number, col: number, x: Float64Array, y: Float64Array, mid: number) {
                     for (let i = 0; i < mid; i++) {
                         for (let j = 0; j < mid; j++) {
-                            result[i][j] = topLeft[i][j];
-                            result[i][j + mid] = topRight[i][j];
+                            result[(row + i) * size + col + j] = x[i * mid + j] + y[i * mid + j];
                         }
                     }
-                    for (let i = 0; i < bottomLeft.length; i++) {
-                        for (let j = 0; j < mid; j++) {
-                            result[i + mid][j] = bottomLeft[i][j];
-                            result[i + mid][j + mid] = bottomRight[i][j];
-                        }
-                    }
-                    return result;
                 }
 
                 function countOperations(rows: number, cols: number, common: number): number {
@@ -174,9 +150,9 @@ function createRecursiveMatrixTask(
                 const MINIMUM_MATRIX_SPLIT_SIZE = 32;
 
                 // Base case: use direct multiplication
-                // Stop if: reached max depth, size is small enough, or matrix too small to split further
-                if (task.depth >= MAXIMUM_RECURSION_DEPTH || size <= task.blockSize || size < MINIMUM_MATRIX_SPLIT_SIZE) {
-                    const result = multiplyMatrices(task.a, task.b);
+                // Stop if: reached max depth, size is small enough, or matrix too small (or odd) to split further
+                if (task.depth >= MAXIMUM_RECURSION_DEPTH || size <= task.blockSize || size < MINIMUM_MATRIX_SPLIT_SIZE || size % 2 !== 0) {
+                    const result = multiplyBlocks(task);
                     const ops = countOperations(size, size, size);
                     console.log(`[Depth ${task.depth}] Thread ${threadId} completed ${size}x${size} multiplication (${ops} ops)`);
 
@@ -190,22 +166,29 @@ function createRecursiveMatrixTask(
                     };
                 }
 
-                // Recursive case: divide into blocks
+                // Recursive case: divide into quadrants, described by their top left corners
                 console.log(`[Depth ${task.depth}] Thread ${threadId} splitting ${size}x${size} into quadrants`);
 
-                const splitA = splitMatrix(task.a);
-                const splitB = splitMatrix(task.b);
+                const mid = size / 2;
+                const A11 = {row: task.aRow, col: task.aCol};
+                const A12 = {row: task.aRow, col: task.aCol + mid};
+                const A21 = {row: task.aRow + mid, col: task.aCol};
+                const A22 = {row: task.aRow + mid, col: task.aCol + mid};
+                const B11 = {row: task.bRow, col: task.bCol};
+                const B12 = {row: task.bRow, col: task.bCol + mid};
+                const B21 = {row: task.bRow + mid, col: task.bCol};
+                const B22 = {row: task.bRow + mid, col: task.bCol + mid};
 
                 // Create 8 multiplication tasks
                 const tasks = [
-                    {a: splitA.topLeft, b: splitB.topLeft, name: 'C11a'},
-                    {a: splitA.topLeft, b: splitB.topRight, name: 'C12a'},
-                    {a: splitA.topRight, b: splitB.bottomLeft, name: 'C11b'},
-                    {a: splitA.topRight, b: splitB.bottomRight, name: 'C12b'},
-                    {a: splitA.bottomLeft, b: splitB.topLeft, name: 'C21a'},
-                    {a: splitA.bottomLeft, b: splitB.topRight, name: 'C22a'},
-                    {a: splitA.bottomRight, b: splitB.bottomLeft, name: 'C21b'},
-                    {a: splitA.bottomRight, b: splitB.bottomRight, name: 'C22b'}
+                    {a: A11, b: B11, name: 'C11a'},
+                    {a: A11, b: B12, name: 'C12a'},
+                    {a: A12, b: B21, name: 'C11b'},
+                    {a: A12, b: B22, name: 'C12b'},
+                    {a: A21, b: B11, name: 'C21a'},
+                    {a: A21, b: B12, name: 'C22a'},
+                    {a: A22, b: B21, name: 'C21b'},
+                    {a: A22, b: B22, name: 'C22b'}
                 ];
 
                 const queue = new ThreadQueue(`matrix-depth-${task.depth}`);
@@ -220,13 +203,20 @@ function createRecursiveMatrixTask(
                     const subTask = new ThreadTask(
                         recreatedFunc as any,
                         of({
-                            a: t.a,
-                            b: t.b,
+                            a: task.a,
+                            b: task.b,
+                            n: task.n,
+                            aRow: t.a.row,
+                            aCol: t.a.col,
+                            bRow: t.b.row,
+                            bCol: t.b.col,
+                            size: mid,
                             depth: task.depth + 1,
                             blockSize: task.blockSize,
                             taskId: `${task.taskId}-${t.name}`,
                             threadFuncString: funcString
-                        })
+                        }),
+                        {transferOutput: true}
                     );
                     queue.enqueue(subTask);
                 });
@@ -245,7 +235,7 @@ function createRecursiveMatrixTask(
                         next: (result: any) => {
                             if (result.error) {
                                 console.error(`[Depth ${task.depth}] Error in sub-task:`, result.error);
-                                reject(new Error(result.error));
+                                reject(result.error);
                             } else if (!result.completed && result.value) {
                                 subResults.push(result.value);
                             }
@@ -268,12 +258,11 @@ function createRecursiveMatrixTask(
                 // C12 = C12a + C12b (A11*B12 + A12*B22) = [2] + [3]
                 // C21 = C21a + C21b (A21*B11 + A22*B21) = [4] + [5]
                 // C22 = C22a + C22b (A21*B12 + A22*B22) = [6] + [7]
-                const c11 = addMatrices(subResults[0].result, subResults[1].result);
-                const c12 = addMatrices(subResults[2].result, subResults[3].result);
-                const c21 = addMatrices(subResults[4].result, subResults[5].result);
-                const c22 = addMatrices(subResults[6].result, subResults[7].result);
-
-                const result = combineMatrix(c11, c12, c21, c22);
+                const result = new Float64Array(size * size);
+                addBlocksInto(result, 0, 0, subResults[0].result, subResults[1].result, mid);
+                addBlocksInto(result, 0, mid, subResults[2].result, subResults[3].result, mid);
+                addBlocksInto(result, mid, 0, subResults[4].result, subResults[5].result, mid);
+                addBlocksInto(result, mid, mid, subResults[6].result, subResults[7].result, mid);
                 const totalThreads = subResults.reduce((sum, r) => sum + r.threadsCreated, 0) + 1;
                 const totalOps = subResults.reduce((sum, r) => sum + r.operations, 0);
 
@@ -301,24 +290,32 @@ function createRecursiveMatrixTask(
         of({
             a,
             b,
+            n,
+            aRow: 0,
+            aCol: 0,
+            bRow: 0,
+            bCol: 0,
+            size: n,
             depth,
             blockSize,
             taskId,
             threadFuncString  // ⭐ Pass function string for recursive calls
-        })
+        }),
+        {transferOutput: true}
     );
 }
 
 /**
- * Compare two matrices for equality (with tolerance for floating point)
+ * Compare a row-major result with the expected matrix for equality (with tolerance for floating point)
  */
-function matricesEqual(a: Matrix, b: Matrix, tolerance: number = 0.0001): boolean {
-    if (a.length !== b.length || a[0].length !== b[0].length) return false;
-
-    for (let i = 0; i < a.length; i++) {
-        for (let j = 0; j < a[0].length; j++) {
-            if (Math.abs(a[i][j] - b[i][j]) > tolerance) {
-                console.error(`Mismatch at [${i}][${j}]: ${a[i][j]} vs ${b[i][j]}`);
+function matricesEqual(a: Float64Array, b: Matrix, tolerance: number = 0.0001): boolean {
+    const size = b.length;
+    if (a.length !== size * size) return false;
+
+    for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+            if (Math.abs(a[i * size + j] - b[i][j]) > tolerance) {
+                console.error(`Mismatch at [${i}][${j}]: ${a[i * size + j]} vs ${b[i][j]}`);
                 return false;
             }
         }
@@ -371,15 +368,16 @@ async function runMatrixTest(
     name: string,
     size: number,
     blockSize: number,
-    matrixA: Matrix,
-    matrixB: Matrix,
+    sharedA: Float64Array,
+    sharedB: Float64Array,
     expected: ExpectedResultTime
 ) {
 
     // Create parallel task
     const matrixTask = createRecursiveMatrixTask(
-        matrixA,
-        matrixB,
+        sharedA,
+        sharedB,
+        size,
         0,
         blockSize,
         'ROOT'
@@ -407,7 +405,7 @@ async function runMatrixTest(
             next: (result) => {
                 if (result.error) {
                     console.error('Error:', result.error);
-                    reject(new Error(result.error));
+                    reject(result.error);
                 } else if (!result.completed && result.value) {
                     finalResult = result.value as MatrixResult;
                 }
@@ -486,13 +484,16 @@ async function runAllTests() {
 
     for (const test of tests) {
         const {matrixA, matrixB} = createTestMatrices(test.size);
+        // Every thread reads its blocks straight from these, instead of receiving copies
+        const sharedA = createSharedArray(Float64Array, matrixA.flat());
+        const sharedB = createSharedArray(Float64Array, matrixB.flat());
         let expected: ExpectedResultTime | null = null;
         for (const blockSize of test.blocksizes) {
             printPreface(test.name, test.size, blockSize);
             if (!expected) {
                 expected = createExpected(test.name, test.size, blockSize, matrixA, matrixB);
             }
-            await runMatrixTest(test.name, test.size, blockSize, matrixA, matrixB, expected);
+            await runMatrixTest(test.name, test.size, blockSize, sharedA, sharedB, expected);
         }
     }
 
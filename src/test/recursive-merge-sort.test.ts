@@ -126,7 +126,8 @@ function createRecursiveSortTask(
         queue.enqueue(rightTask);
         
         const pool = new ThreadPool([queue]);
-        const results$ = pool.start();
+        // Submission order: the left half's results always come first
+        const results$ = pool.start({ order: 'submission' });
         
         if (!results$) {
           throw new Error('Failed to start thread pool');
@@ -140,7 +141,7 @@ function createRecursiveSortTask(
             next: (result: any) => {
               if (result.error) {
                 console.error(`[Depth ${task.depth}] Error in sub-task:`, result.error);
-                reject(new Error(result.error));
+                reject(result.error);
               } else if (!result.completed && result.value) {
                 allResults.push(result.value);
               }
@@ -151,9 +152,7 @@ function createRecursiveSortTask(
         });
         
         // Extract sorted arrays
-        const sortedResults = allResults
-          .sort((a, b) => a.taskId.localeCompare(b.taskId))
-          .map(r => r.sorted);
+        const sortedResults = allResults.map(r => r.sorted);
         
         if (sortedResults.length !== 2) {
           throw new Error(`Expected 2 results, got ${sortedResults.length}`);
@@ -252,7 +251,7 @@ async function runTest(testCase: typeof TEST_CASES[0]) {
       next: (result) => {
         if (result.error) {
           console.error('Error:', result.error);
-          reject(new Error(result.error));
+          reject(result.error);
         } else if (!result.completed && result.value) {
           finalResult = result.value as SortResult;
         }
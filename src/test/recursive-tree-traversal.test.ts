@@ -1,5 +1,5 @@
 import {mergeMap, Observable, of} from 'rxjs';
-import {ThreadPool, ThreadQueue, ThreadTask} from '../index';
+import {ForkJoin, ThreadPool, ThreadQueue, ThreadTask} from '../index';
 
 console.log('=== Recursive Binary Tree Traversal Test ===\n');
 
@@ -15,7 +15,6 @@ interface TreeTask {
   maxDepth: number;
   currentDepth: number;
   taskId: string;
-  threadFuncString?: string;  // ⭐ Pass function as string for recursion
 }
 
 interface TreeResult {
@@ -97,6 +96,7 @@ function calculateTreeStats(node: TreeNode | null): { sum: number; count: number
 
 /**
  * Create a recursive tree traversal task
+ * Children are forked onto the same pool with forkJoin instead of nesting ThreadPools.
  * Note: The thread function must be self-contained (no external closures)
  */
 function createRecursiveTreeTask(
@@ -106,11 +106,9 @@ function createRecursiveTreeTask(
   taskId: string
 ): ThreadTask {
   // Thread function that will be serialized - must be completely self-contained
-  const threadFunc = (input: Observable<TreeTask>, threadId: number) => {
+  const threadFunc = (input: Observable<TreeTask>, threadId: number, forkJoin: ForkJoin<TreeTask, TreeResult>) => {
     return input.pipe(
-      mergeMap(async (task) => {
-        // ThreadTask, ThreadQueue, ThreadPool, of, mergeMap are available in worker context
-        
+      mergeMap(async (task): Promise<TreeResult> => {
         console.log(`[Depth ${task.currentDepth}] Thread ${threadId} processing node (task: ${task.taskId})`);
         
         // Helper function to calculate tree stats serially (defined in worker scope)
@@ -128,25 +126,8 @@ function createRecursiveTreeTask(
           };
         }
         
-        // Base case: null node
-        if (!task.node) {
-          return {
-            threadId,
-            sum: 0,
-            count: 0,
-            maxValue: -Infinity,
-            minValue: Infinity,
-            depth: task.currentDepth,
-            taskId: task.taskId,
-            threadsCreated: 1
-          };
-        }
-        
-        const nodeValue = task.node.value;
-        
-        // Base case: leaf node or max depth reached
-        if (task.currentDepth >= task.maxDepth || (!task.node.left && !task.node.right)) {
-          // Process this subtree serially
+        // Base case: null node, leaf node or max depth reached - process this subtree serially
+        if (!task.node || task.currentDepth >= task.maxDepth || (!task.node.left && !task.node.right)) {
           const stats = calculateTreeStats(task.node);
           console.log(`[Depth ${task.currentDepth}] Thread ${threadId} completed leaf processing: ${stats.count} nodes`);
           
@@ -162,85 +143,23 @@ function createRecursiveTreeTask(
           };
         }
         
-        // Recursive case: create ThreadPool for children
-        console.log(`[Depth ${task.currentDepth}] Thread ${threadId} spawning child threads`);
-        
-        // Reconstruct the function from the passed string for recursion
-        const funcString = task.threadFuncString || '';
-        const recreatedFunc = new Function('input', 'threadId', 
-          'return (' + funcString + ')(input, threadId)'
-        );
+        // Recursive case: fork a child task per subtree, then join their results
+        console.log(`[Depth ${task.currentDepth}] Thread ${threadId} forking child tasks`);
         
-        const childTasks: any[] = [];
-        
-        if (task.node.left) {
-          childTasks.push(new ThreadTask(
-            recreatedFunc as any,
-            of({ 
-              node: task.node.left, 
-              maxDepth: task.maxDepth, 
-              currentDepth: task.currentDepth + 1, 
-              taskId: `${task.taskId}-L`,
-              threadFuncString: funcString
-            })
-          ));
-        }
-        
-        if (task.node.right) {
-          childTasks.push(new ThreadTask(
-            recreatedFunc as any,
-            of({ 
-              node: task.node.right, 
-              maxDepth: task.maxDepth, 
-              currentDepth: task.currentDepth + 1, 
-              taskId: `${task.taskId}-R`,
-              threadFuncString: funcString
-            })
-          ));
-        }
-        
-        if (childTasks.length === 0) {
-          // Only current node
-          return {
-            threadId,
-            sum: nodeValue,
-            count: 1,
-            maxValue: nodeValue,
-            minValue: nodeValue,
-            depth: task.currentDepth,
-            taskId: task.taskId,
-            threadsCreated: 1
-          };
-        }
-        
-        // Create ThreadPool for children
-        const queue = new ThreadQueue(`tree-depth-${task.currentDepth}`);
-        childTasks.forEach(t => queue.enqueue(t));
-        
-        const pool = new ThreadPool([queue]);
-        const results$ = pool.start();
-        
-        if (!results$) {
-          throw new Error('Failed to start thread pool');
+        const nodeValue = task.node.value;
+        const children: Array<[TreeNode | null, string]> = [[task.node.left, 'L'], [task.node.right, 'R']];
+        for (const [child, side] of children) {
+          if (child) {
+            forkJoin.fork({
+              node: child,
+              maxDepth: task.maxDepth,
+              currentDepth: task.currentDepth + 1,
+              taskId: `${task.taskId}-${side}`
+            });
+          }
         }
         
-        // Collect results
-        const childResults: any[] = [];
-        
-        await new Promise<void>((resolve, reject) => {
-          results$.subscribe({
-            next: (result: any) => {
-              if (result.error) {
-                console.error(`[Depth ${task.currentDepth}] Error in child:`, result.error);
-                reject(new Error(result.error));
-              } else if (!result.completed && result.value) {
-                childResults.push(result.value);
-              }
-            },
-            error: reject,
-            complete: resolve
-          });
-        });
+        const childResults = await forkJoin.join();
         
         // Combine results from children
         const totalSum = nodeValue + childResults.reduce((sum, r) => sum + r.sum, 0);
@@ -251,8 +170,6 @@ function createRecursiveTreeTask(
         
         console.log(`[Depth ${task.currentDepth}] Thread ${threadId} combined results: ${totalCount} nodes processed`);
         
-        pool.terminateAll();
-        
         return {
           threadId,
           sum: totalSum,
@@ -267,19 +184,7 @@ function createRecursiveTreeTask(
     );
   };
   
-  // Serialize the function to pass it along for recursion
-  const threadFuncString = threadFunc.toString();
-  
-  return new ThreadTask(
-    threadFunc, 
-    of({ 
-      node, 
-      maxDepth, 
-      currentDepth, 
-      taskId,
-      threadFuncString  // ⭐ Pass function string for recursive calls
-    })
-  );
+  return new ThreadTask(threadFunc, of({ node, maxDepth, currentDepth, taskId }));
 }
 
 /**
@@ -332,7 +237,7 @@ async function runTreeTest(
       next: (result) => {
         if (result.error) {
           console.error('Error:', result.error);
-          reject(new Error(result.error));
+          reject(result.error);
         } else if (!result.completed && result.value) {
           finalResult = result.value as TreeResult;
         }
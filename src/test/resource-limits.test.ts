@@ -0,0 +1,54 @@
+import {lastValueFrom, map, Observable, of} from 'rxjs';
+import {ThreadPool, ThreadPoolEvent, ThreadQueue, ThreadTask} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Resource Limits Test ===\n');
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('A task allocating past a 16 MB heap limit:');
+  const pool = new ThreadPool([new ThreadQueue('limited')], {threads: 1});
+  try {
+    const hog = new ThreadTask(
+      (input$: Observable<number>) => input$.pipe(map((size): number => {
+        const arrays: number[][] = [];
+        for (;;) {
+          arrays.push(new Array(size).fill(arrays.length));
+        }
+      })),
+      of(100000),
+      {resourceLimits: {maxOldGenerationSizeMb: 16, maxYoungGenerationSizeMb: 4}}
+    );
+    const result = await lastValueFrom(pool.submit(hog).results);
+    const status = result.type === 'value' ? 'value' : result.status;
+    passed = check('out of memory', status === 'out-of-memory', status) && passed;
+    const [value] = await pool.submit(createSleepTask(10)).toPromise();
+    passed = check('next task unaffected', value === 10, String(value)) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+
+  // A budget of 1 MB is always exceeded, so only the first worker may start
+  console.log('\nTwo 200 ms tasks on 2 threads under a memory budget of 1 MB:');
+  const budgeted = new ThreadPool([new ThreadQueue('budgeted')], {threads: 2, memoryBudgetMb: 1});
+  const events: ThreadPoolEvent[] = [];
+  const subscription = budgeted.getEvents().subscribe(event => events.push(event));
+  try {
+    const values = await Promise.all([1, 2].map(() => budgeted.submit(createSleepTask(200)).toPromise()));
+    passed = check('both completed', values.flat().join(',') === '200,200', values.flat().join(', ')) && passed;
+    passed = check('one worker', budgeted.getPooledWorkerCount() === 1, `${budgeted.getPooledWorkerCount()} worker(s)`) && passed;
+    const started = events.filter(event => event.type === 'started');
+    const firstFinished = events.find(event => event.type === 'finished');
+    const waited = started.length === 2 && firstFinished !== undefined && started[1].timestamp >= firstFinished.timestamp;
+    passed = check('second waited for the first', waited,
+      started.map(event => event.type === 'started' ? `waited ${event.waitTimeMs.toFixed(0)} ms on worker ${event.workerId}` : '').join(', ')) && passed;
+  } finally {
+    subscription.unsubscribe();
+    await budgeted.shutdown();
+  }
+
+  return passed;
+}
+
+runChecks('resource limits', main);
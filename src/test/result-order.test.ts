@@ -0,0 +1,70 @@
+import {lastValueFrom, Observable, toArray} from 'rxjs';
+import {GroupedThreadResult, ThreadPool, ThreadPoolEvent, ThreadQueue, ThreadResult} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Result Order Test ===\n');
+
+const THREADS = 4;
+
+type Emitted = ThreadResult<number> | GroupedThreadResult<number>;
+
+/**
+ * Run tasks sleeping the given delays, in this order, and collect what start() emits and the pool's events
+ */
+async function runDelays(
+  delays: number[],
+  start: (pool: ThreadPool<ThreadQueue<number>>) => Observable<Emitted> | null
+): Promise<[Emitted[], ThreadPoolEvent[]]> {
+  const queue = new ThreadQueue<number>('ordered');
+  delays.forEach(delay => queue.enqueue(createSleepTask(delay)));
+  const pool = new ThreadPool([queue], {threads: THREADS});
+  const events: ThreadPoolEvent[] = [];
+  const subscription = pool.getEvents().subscribe(event => events.push(event));
+  try {
+    return [await lastValueFrom(start(pool)!.pipe(toArray())), events];
+  } finally {
+    subscription.unsubscribe();
+    await pool.shutdown();
+  }
+}
+
+/**
+ * Get the emitted output values, in emission order
+ */
+function valuesOf(items: Emitted[]): number[] {
+  return items.flatMap(item => 'values' in item ? item.values : item.type === 'value' ? [item.value] : []);
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+  const delays = [600, 400, 200, 0];
+
+  console.log(`Tasks of ${delays.join(', ')} ms on ${THREADS} threads:`);
+  const [completion] = await runDelays(delays, pool => pool.start());
+  passed = check('completion order', valuesOf(completion).join(',') === [...delays].reverse().join(','), valuesOf(completion).join(', ')) && passed;
+  const [submission] = await runDelays(delays, pool => pool.start({order: 'submission'}));
+  passed = check('submission order', valuesOf(submission).join(',') === delays.join(','), valuesOf(submission).join(', ')) && passed;
+  const [grouped] = await runDelays(delays, pool => pool.start({order: 'submission', group: true}));
+  const groupedOrder = grouped.map(item => 'values' in item ? `${item.values.join('')} ${item.status}` : item.type);
+  passed = check('grouped in submission order', valuesOf(grouped).join(',') === delays.join(',') && grouped.length === delays.length,
+    groupedOrder.join(', ')) && passed;
+
+  const windowed = [300, 200, 100, 0, 300, 0];
+  console.log(`\nTasks of ${windowed.join(', ')} ms on ${THREADS} threads, with a reorder window of 2:`);
+  const [results, events] = await runDelays(windowed, pool => pool.start({order: 'submission', reorderWindow: 2}));
+  passed = check('submission order', valuesOf(results).join(',') === windowed.join(','), valuesOf(results).join(', ')) && passed;
+  let running = 0;
+  let peak = 0;
+  for (const event of events) {
+    if (event.type === 'started') {
+      peak = Math.max(peak, ++running);
+    } else if (event.type !== 'queued') {
+      running--;
+    }
+  }
+  passed = check('at most 2 tasks at once', peak === 2, `at most ${peak} running at once`) && passed;
+
+  return passed;
+}
+
+runChecks('result order', main);
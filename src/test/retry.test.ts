@@ -0,0 +1,68 @@
+import {firstValueFrom, map, Observable, of, toArray} from 'rxjs';
+import {RetryPolicy, ThreadPool, ThreadPoolEvent, ThreadQueue, ThreadResult, ThreadTask} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Retry Test ===\n');
+
+// Slack for timers firing late and for events crossing from the worker
+const TOLERANCE_MS = 10;
+
+/**
+ * A task whose thread function always throws an error of the given name
+ */
+function createFailingTask(errorName: string, retry: RetryPolicy): ThreadTask<string, Observable<string>, string, Observable<string>> {
+  return new ThreadTask(
+    (input$: Observable<string>) => input$.pipe(map((name): string => {
+      throw Object.assign(new Error(`Intentional ${name}`), {name});
+    })),
+    of(errorName),
+    {retry}
+  );
+}
+
+/**
+ * Run a task, collecting its results and the pool's events
+ */
+async function runTask(pool: ThreadPool, task: ThreadTask<string, Observable<string>, string, Observable<string>>): Promise<[ThreadResult[], ThreadPoolEvent[]]> {
+  const events: ThreadPoolEvent[] = [];
+  const subscription = pool.getEvents().subscribe(event => events.push(event));
+  const results = await firstValueFrom(pool.submit(task).results.pipe(toArray()));
+  subscription.unsubscribe();
+  return [results, events];
+}
+
+function describe(results: ThreadResult[]): string {
+  return results.map(result => `${result.attempt}:${result.type}${result.completed ? ' (final)' : ''}`).join(', ');
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+  const pool = new ThreadPool([new ThreadQueue('retries')], {threads: 1});
+
+  try {
+    console.log('A failing task with maxAttempts 3 and a backoff of 100 ms, doubling:');
+    const [results, events] = await runTask(pool, createFailingTask('Error', {maxAttempts: 3, backoffMs: 100, backoffFactor: 2}));
+    passed = check('attempts', results.length === 3 && results.every((result, index) => result.type === 'error' &&
+      result.attempt === index + 1 && result.completed === (index === 2)), describe(results)) && passed;
+    const failedAt = events.filter(event => event.type === 'failed').map(event => event.timestamp);
+    const startedAt = events.filter(event => event.type === 'started').map(event => event.timestamp);
+    const delays = [startedAt[1] - failedAt[0], startedAt[2] - failedAt[1]];
+    passed = check('backoff', delays[0] >= 100 - TOLERANCE_MS && delays[1] >= 200 - TOLERANCE_MS && delays[1] > delays[0],
+      delays.map(delay => `${delay} ms`).join(', ')) && passed;
+
+    console.log('\nA task failing with an error its policy does not retry:');
+    const retry: RetryPolicy = {maxAttempts: 3, backoffMs: 10, retryable: error => error.cause.name !== 'ValidationError'};
+    const [validation] = await runTask(pool, createFailingTask('ValidationError', retry));
+    const last = validation[validation.length - 1];
+    passed = check('one attempt', validation.length === 1 && last.type === 'error' && last.completed, describe(validation)) && passed;
+    passed = check('original error', last.type === 'error' && last.error.cause.name === 'ValidationError',
+      last.type === 'error' ? last.error.cause.name : last.type) && passed;
+    const [other] = await runTask(pool, createFailingTask('Error', retry));
+    passed = check('other errors retried', other.length === 3, describe(other)) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+  return passed;
+}
+
+runChecks('retry', main);
@@ -0,0 +1,83 @@
+import {lastValueFrom} from 'rxjs';
+import {ThreadPool, ThreadPoolEvent, ThreadQueue} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Routing Key Test ===\n');
+
+const THREADS = 3;
+
+/**
+ * Find a key for every shard
+ */
+function keysPerShard(pool: ThreadPool): string[] {
+  const keys: string[] = [];
+  for (let i = 0; keys.filter(key => key !== undefined).length < pool.getShardCount(); i++) {
+    const key = `key-${i}`;
+    keys[pool.getShard(key)] ??= key;
+  }
+  return keys;
+}
+
+/**
+ * Submit tasks of one key, each running for a while, and the statuses of their final results
+ */
+function submitSameKey(pool: ThreadPool, count: number, delayMs: number, timeoutMs?: number): Promise<string[]> {
+  return Promise.all(Array.from({length: count}, () => lastValueFrom(
+    pool.submit(createSleepTask(delayMs, {routingKey: 'same', timeoutMs})).results
+  ).then(result => result.type === 'value' ? 'value' : result.status)));
+}
+
+async function main(): Promise<boolean> {
+  const pool = new ThreadPool([new ThreadQueue('routed')], {threads: THREADS});
+  const events: ThreadPoolEvent[] = [];
+  const subscription = pool.getEvents().subscribe(event => events.push(event));
+  let passed = true;
+
+  try {
+    const keys = keysPerShard(pool);
+    const workerOf = (key: string) => events
+      .filter(event => event.type === 'started' && event.taskName === key)
+      .map(event => event.type === 'started' ? event.workerId : undefined);
+
+    console.log(`One key per shard, run one after the other on ${THREADS} threads:`);
+    for (const key of keys) {
+      await pool.submit(createSleepTask(50, {name: key, routingKey: key})).toPromise();
+    }
+    const firstWorkers = keys.map(key => workerOf(key)[0]);
+    passed = check('one worker per shard', new Set(firstWorkers).size === keys.length,
+      keys.map((key, shard) => `${key} -> worker ${firstWorkers[shard]}`).join(', ')) && passed;
+
+    console.log('\nThe same keys again, all at once:');
+    await Promise.all(keys.map(key => pool.submit(createSleepTask(50, {name: key, routingKey: key})).toPromise()));
+    const sticky = keys.every((key, shard) => workerOf(key)[1] === firstWorkers[shard]);
+    passed = check('keys stay on their worker', sticky, keys.map(key => workerOf(key).join(' then ')).join(', ')) && passed;
+  } finally {
+    subscription.unsubscribe();
+    await pool.shutdown();
+  }
+
+  console.log('\nFour 500 ms tasks of one key, then a task without a key, on 2 threads:');
+  const crowded = new ThreadPool([new ThreadQueue('crowded')], {threads: 2});
+  try {
+    const keyed = submitSameKey(crowded, 4, 500);
+    const submittedAt = Date.now();
+    await crowded.submit(createSleepTask(50)).toPromise();
+    const waitedMs = Date.now() - submittedAt;
+    passed = check('no waiting behind the key', waitedMs < 1000, `finished after ${waitedMs} ms`) && passed;
+    await keyed;
+  } finally {
+    await crowded.shutdown();
+  }
+
+  console.log('\nThree 500 ms tasks of one key with a timeout of 700 ms, on 3 threads:');
+  const timed = new ThreadPool([new ThreadQueue('timed')], {threads: 3});
+  try {
+    const statuses = await submitSameKey(timed, 3, 500, 700);
+    passed = check('waiting for the shard does not count', statuses.every(status => status === 'completed'), statuses.join(', ')) && passed;
+  } finally {
+    await timed.shutdown();
+  }
+  return passed;
+}
+
+runChecks('routing', main);
@@ -0,0 +1,41 @@
+import {spawnSync} from 'child_process';
+import * as path from 'path';
+
+/**
+ * Test scripts run by npm test, in order. Each exits with 0 when all of its checks pass.
+ */
+const CHECK_SCRIPTS = [
+  'scheduling.test.js',
+  'metrics.test.js',
+  'shutdown.test.js',
+  'promise-api.test.js',
+  'retry.test.js',
+  'result-order.test.js',
+  'task-graph.test.js',
+  'timeouts.test.js',
+  'resource-limits.test.js',
+  'tracing.test.js',
+  'worker-context.test.js',
+  'autoscale.test.js',
+  'executors.test.js',
+  'routing.test.js',
+  'agent-admission.test.js',
+  'distributed-agents.test.js'
+];
+
+console.log('=== Running All Checks ===');
+
+const failed: string[] = [];
+for (const script of CHECK_SCRIPTS) {
+  console.log(`\n--- ${script} ---`);
+  const result = spawnSync(process.execPath, [path.join(__dirname, script)], {stdio: 'inherit', cwd: __dirname});
+  if (result.status !== 0) {
+    failed.push(script);
+  }
+}
+
+if (failed.length > 0) {
+  console.log(`\n❌ ${failed.length} of ${CHECK_SCRIPTS.length} test scripts failed: ${failed.join(', ')}`);
+  process.exit(1);
+}
+console.log(`\n✅ All ${CHECK_SCRIPTS.length} test scripts passed`);
@@ -0,0 +1,65 @@
+import {lastValueFrom} from 'rxjs';
+import {ThreadPool, ThreadPoolEvent, ThreadQueue} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Queue Scheduling Test ===\n');
+
+function fill(queue: ThreadQueue, prefix: string, count: number, delayMs: number): void {
+  for (let i = 0; i < count; i++) {
+    queue.enqueue(createSleepTask(delayMs, {name: `${prefix}${i}`}));
+  }
+}
+
+/**
+ * Run every queued task with start() and collect the pool's events
+ */
+async function runAll(pool: ThreadPool): Promise<ThreadPoolEvent[]> {
+  const events: ThreadPoolEvent[] = [];
+  const subscription = pool.getEvents().subscribe(event => events.push(event));
+  await lastValueFrom(pool.start()!);
+  subscription.unsubscribe();
+  await pool.shutdown();
+  return events;
+}
+
+function startOrder(events: ThreadPoolEvent[]): string[] {
+  return events.filter(event => event.type === 'started').map(event => event.taskName);
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('Priority queue listed after a busier queue, with maxConcurrency 1:');
+  const compute = new ThreadQueue('compute', {weight: 1});
+  const analysis = new ThreadQueue('analysis', {priority: 5, maxConcurrency: 1});
+  fill(compute, 'L', 4, 100);
+  fill(analysis, 'H', 3, 100);
+  const priorityEvents = await runAll(new ThreadPool([compute, analysis], {threads: 2}));
+  const priorityOrder = startOrder(priorityEvents);
+  let analysisRunning = 0;
+  let analysisPeak = 0;
+  for (const event of priorityEvents.filter(event => event.queueName === 'analysis')) {
+    if (event.type === 'started') {
+      analysisPeak = Math.max(analysisPeak, ++analysisRunning);
+    } else if (event.type === 'finished' || event.type === 'failed') {
+      analysisRunning--;
+    }
+  }
+  passed = check('priority first', priorityOrder[0] === 'H0' && priorityOrder[1] === 'L0', priorityOrder.join(' ')) && passed;
+  passed = check('maxConcurrency', analysisPeak === 1, `at most ${analysisPeak} analysis task(s) at once`) && passed;
+  passed = check('priority ahead of the backlog', priorityOrder.indexOf('H2') < priorityOrder.indexOf('L3'),
+    `H2 at ${priorityOrder.indexOf('H2')}, L3 at ${priorityOrder.indexOf('L3')}`) && passed;
+
+  console.log('\nQueues of equal priority weighted 3 to 1, on one thread:');
+  const heavy = new ThreadQueue('heavy', {weight: 3});
+  const light = new ThreadQueue('light', {weight: 1});
+  fill(heavy, 'A', 4, 20);
+  fill(light, 'B', 4, 20);
+  const weightedOrder = startOrder(await runAll(new ThreadPool([heavy, light], {threads: 1})));
+  const heavyShare = weightedOrder.slice(0, 4).filter(name => name.startsWith('A')).length;
+  passed = check('weighted share', heavyShare === 3, `${weightedOrder.join(' ')}: ${heavyShare} of the first 4 from the heavy queue`) && passed;
+
+  return passed;
+}
+
+runChecks('scheduling', main);
@@ -0,0 +1,62 @@
+import {lastValueFrom} from 'rxjs';
+import {SubmittedTask, ThreadPool, ThreadQueue, ThreadStatus} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Shutdown Test ===\n');
+
+/**
+ * Get the status of a submitted task's final result
+ */
+function finalStatus(task: SubmittedTask): Promise<ThreadStatus | undefined> {
+  return lastValueFrom(task.results).then(result => result.type === 'value' ? undefined : result.status);
+}
+
+function same(actual: number[], expected: number[]): boolean {
+  return actual.length === expected.length && actual.every((threadId, index) => threadId === expected[index]);
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('Graceful shutdown of a single thread with one task running and one queued:');
+  const graceful = new ThreadPool([new ThreadQueue('graceful')], {threads: 1});
+  const running = graceful.submit(createSleepTask(200));
+  const queued = graceful.submit(createSleepTask(200));
+  const summary = await graceful.shutdown();
+  const statuses = await Promise.all([finalStatus(running), finalStatus(queued)]);
+  passed = check('summary', same(summary.finished, [running.threadId]) && same(summary.cancelled, [queued.threadId]) &&
+    summary.aborted.length === 0, JSON.stringify(summary)) && passed;
+  passed = check('final results', statuses[0] === 'completed' && statuses[1] === 'cancelled', statuses.join(', ')) && passed;
+  let rejected = false;
+  try {
+    graceful.submit(createSleepTask(10));
+  } catch {
+    rejected = true;
+  }
+  passed = check('closed to new tasks', rejected, rejected ? 'submit() throws' : 'submit() accepted a task') && passed;
+
+  console.log('\nGraceful shutdown with a deadline:');
+  const deadline = new ThreadPool([new ThreadQueue('deadline')], {threads: 2});
+  const slow = deadline.submit(createSleepTask(10000));
+  const fast = deadline.submit(createSleepTask(50));
+  const startedAt = Date.now();
+  const deadlineSummary = await deadline.shutdown({timeoutMs: 1500});
+  const elapsedMs = Date.now() - startedAt;
+  passed = check('summary', same(deadlineSummary.finished, [fast.threadId]) && same(deadlineSummary.aborted, [slow.threadId]),
+    JSON.stringify(deadlineSummary)) && passed;
+  passed = check('stopped at the deadline', elapsedMs < 5000, `after ${elapsedMs} ms`) && passed;
+  const slowStatus = await finalStatus(slow);
+  passed = check('stopped task cancelled', slowStatus === 'cancelled', String(slowStatus)) && passed;
+
+  console.log('\nImmediate shutdown:');
+  const immediate = new ThreadPool([new ThreadQueue('immediate')], {threads: 1});
+  const stopped = immediate.submit(createSleepTask(5000));
+  const immediateSummary = await immediate.shutdown({graceful: false});
+  passed = check('summary', same(immediateSummary.aborted, [stopped.threadId]) && immediateSummary.finished.length === 0,
+    JSON.stringify(immediateSummary)) && passed;
+  passed = check('no worker left', immediate.getPooledWorkerCount() === 0, `${immediate.getPooledWorkerCount()} worker(s)`) && passed;
+
+  return passed;
+}
+
+runChecks('shutdown', main);
@@ -0,0 +1,82 @@
+import {map, Observable, of} from 'rxjs';
+import {TaskGraph, ThreadPool, ThreadQueue, ThreadTask} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Task Graph Test ===\n');
+
+function createTask(threadFunc: (input$: Observable<number>) => Observable<number>, ...input: number[]) {
+  return new ThreadTask(threadFunc, of(...input));
+}
+
+/**
+ * Try to add a task to a graph
+ * @returns The error message, or undefined if the task was added
+ */
+function tryAdd(graph: TaskGraph, id: string, dependsOn: string[]): string | undefined {
+  try {
+    graph.add(id, createTask((input$: Observable<number>) => input$), {dependsOn});
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('A failing task in the middle of a graph:');
+  const graph = new TaskGraph()
+    .add('source', createTask((input$: Observable<number>) => input$, 2))
+    .add('double', createTask((input$: Observable<number>) => input$.pipe(map(value => value * 2))), {dependsOn: ['source']})
+    .add('fail', createTask((input$: Observable<number>) => input$.pipe(map(() => {
+      throw new Error('Intentional failure');
+    }))), {dependsOn: ['double']})
+    .add('afterFail', createTask((input$: Observable<number>) => input$), {dependsOn: ['fail']})
+    .add('indirect', createTask((input$: Observable<number>) => input$), {dependsOn: ['afterFail', 'double']})
+    .add('other', createTask((input$: Observable<number>) => input$.pipe(map(value => value + 1))), {dependsOn: ['double']});
+
+  const pool = new ThreadPool([new ThreadQueue('graph')], {threads: 2});
+  try {
+    const outcomes = await pool.runGraph(graph);
+    const describe = (id: string) => {
+      const outcome = outcomes.get(id);
+      return outcome?.status === 'skipped' ? `${id} skipped for ${outcome.failedTask}` : `${id} ${outcome?.status}`;
+    };
+    const skippedFor = (id: string) => {
+      const outcome = outcomes.get(id);
+      return outcome?.status === 'skipped' ? outcome.failedTask : undefined;
+    };
+    const other = outcomes.get('other');
+
+    passed = check('failure reported', outcomes.get('fail')?.status === 'failed', describe('fail')) && passed;
+    passed = check('dependent skipped', skippedFor('afterFail') === 'fail', describe('afterFail')) && passed;
+    passed = check('indirect dependent skipped', skippedFor('indirect') === 'fail', describe('indirect')) && passed;
+    passed = check('unrelated branch ran', other?.status === 'completed' && other.values[0] === 5,
+      `${describe('other')} with ${other?.status === 'completed' ? other.values.join(', ') : 'no values'}`) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+
+  console.log('\nAdding the task that closes a cycle:');
+  const cyclic = new TaskGraph();
+  tryAdd(cyclic, 'a', ['c']);
+  tryAdd(cyclic, 'c', ['b']);
+  const cycleError = tryAdd(cyclic, 'b', ['a']);
+  passed = check('cycle rejected by add()', cycleError === 'TaskGraph has a cycle: b -> a -> c -> b', cycleError ?? 'added') && passed;
+  passed = check('graph unchanged', cyclic.size() === 2 && !cyclic.getNode('b'), `${cyclic.size()} tasks`) && passed;
+  const selfError = tryAdd(cyclic, 'self', ['self']);
+  passed = check('self dependency rejected', selfError === 'TaskGraph has a cycle: self -> self', selfError ?? 'added') && passed;
+  tryAdd(cyclic, 'b', ['zz']);
+  let missingError: string | undefined;
+  try {
+    cyclic.validate();
+  } catch (error) {
+    missingError = (error as Error).message;
+  }
+  passed = check('unknown dependency rejected by validate()', missingError === 'Task "b" depends on unknown task "zz"',
+    missingError ?? 'valid') && passed;
+
+  return passed;
+}
+
+runChecks('task graph', main);
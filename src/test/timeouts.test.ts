@@ -0,0 +1,43 @@
+import {lastValueFrom} from 'rxjs';
+import {SubmittedTask, ThreadPool, ThreadQueue} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Task Timeout Test ===\n');
+
+/**
+ * Get the status of a submitted task's final result
+ */
+function finalStatus(task: SubmittedTask): Promise<string | undefined> {
+  return lastValueFrom(task.results).then(result => result.type === 'value' ? undefined : result.status);
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('A 300 ms task with a timeout of 100 ms:');
+  const pool = new ThreadPool([new ThreadQueue('timeouts')], {threads: 1});
+  try {
+    const status = await finalStatus(pool.submit(createSleepTask(300, {timeoutMs: 100})));
+    passed = check('timed out', status === 'timeout', String(status)) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+
+  // A budget of 1 MB is always exceeded, so the second task waits for the first one's worker
+  console.log('\nTwo 300 ms tasks with a timeout of 500 ms, sharing one worker under a memory budget:');
+  const budgeted = new ThreadPool([new ThreadQueue('budgeted')], {threads: 2, memoryBudgetMb: 1});
+  try {
+    // Start the worker first, so neither task's timeout includes its startup
+    await budgeted.submit(createSleepTask(0)).toPromise();
+    const tasks = [1, 2].map(() => budgeted.submit(createSleepTask(300, {timeoutMs: 500})));
+    const statuses = await Promise.all(tasks.map(finalStatus));
+    passed = check('waiting for a worker does not count', statuses.every(status => status === 'completed'), statuses.join(', ')) && passed;
+    passed = check('one worker', budgeted.getPooledWorkerCount() === 1, `${budgeted.getPooledWorkerCount()} worker(s)`) && passed;
+  } finally {
+    await budgeted.shutdown();
+  }
+
+  return passed;
+}
+
+runChecks('timeout', main);
@@ -0,0 +1,176 @@
+import {Context, Span, SpanAttributes, SpanAttributeValue, SpanContext, SpanOptions, trace, Tracer} from '@opentelemetry/api';
+import {mergeMap, Observable, of} from 'rxjs';
+import {ConcurrencyGovernor, ForkJoin, OpenTelemetryExporter, ThreadPool, ThreadPoolEvent, ThreadQueue, ThreadTask} from '../index';
+import {check, createSleepTask, runChecks} from './checks';
+
+console.log('=== Tracing Test ===\n');
+
+const THREADS = 4;
+
+/**
+ * Span keeping what the exporter recorded on it
+ */
+class RecordedSpan implements Span {
+  readonly attributes: SpanAttributes;
+  ended = false;
+
+  constructor(readonly name: string, attributes: SpanAttributes, readonly parent: RecordedSpan | undefined) {
+    this.attributes = {...attributes};
+  }
+
+  spanContext(): SpanContext {
+    return {traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 1};
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(): this {
+    return this;
+  }
+
+  addLink(): this {
+    return this;
+  }
+
+  addLinks(): this {
+    return this;
+  }
+
+  setStatus(): this {
+    return this;
+  }
+
+  updateName(): this {
+    return this;
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  isRecording(): boolean {
+    return !this.ended;
+  }
+
+  recordException(): void {}
+}
+
+/**
+ * Tracer keeping every span it started
+ */
+class RecordingTracer implements Tracer {
+  readonly spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptions = {}, context?: Context): Span {
+    const parent = context ? trace.getSpan(context) : undefined;
+    const span = new RecordedSpan(name, options.attributes ?? {}, parent instanceof RecordedSpan ? parent : undefined);
+    this.spans.push(span);
+    return span;
+  }
+
+  startActiveSpan(): never {
+    throw new Error('Not used by the exporter');
+  }
+}
+
+/**
+ * Fibonacci numbers, forking a child per term
+ */
+function createFibTask(n: number): ThreadTask<number, Observable<number>, number, Observable<number>> {
+  return new ThreadTask(
+    (input: Observable<number>, threadId: number, forkJoin: ForkJoin<number, number>) => input.pipe(
+      mergeMap(async value => {
+        if (value < 2) {
+          return value;
+        }
+        forkJoin.fork(value - 1);
+        forkJoin.fork(value - 2);
+        const [left, right] = await forkJoin.join();
+        return left + right;
+      })
+    ),
+    of(n),
+    {name: 'fib'}
+  );
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log(`fib(5) forking its terms on ${THREADS} warm threads:`);
+  // A budget of os.availableParallelism() would hand every child back to its parent on a small machine
+  ConcurrencyGovernor.attachGlobal(ConcurrencyGovernor.create(THREADS).getBuffer());
+  const pool = new ThreadPool([new ThreadQueue('fib')], {threads: THREADS});
+  const tracer = new RecordingTracer();
+  try {
+    // Start every worker first, so forked children find an idle one
+    await Promise.all(Array.from({length: THREADS}, () => pool.submit(createSleepTask(100)).toPromise()));
+    const events: ThreadPoolEvent[] = [];
+    const subscription = pool.getEvents().subscribe(event => events.push(event));
+    const exporter = new OpenTelemetryExporter(pool, {tracer});
+    const warmMetrics = pool.getMetrics();
+
+    const [value] = await pool.submit(createFibTask(5)).toPromise();
+    exporter.stop();
+    subscription.unsubscribe();
+    passed = check('value', value === 5, String(value)) && passed;
+
+    const taskId = (span: RecordedSpan) => String(span.attributes['rx_thread_pool.task_id']);
+    const [root, ...forks] = tracer.spans;
+    passed = check('root span', root !== undefined && root.parent === undefined && !taskId(root).includes('.f'),
+      root ? `task ${taskId(root)}` : 'no span') && passed;
+    passed = check('forked children traced', forks.length > 0 && forks.every(span => taskId(span).includes('.f')),
+      forks.map(taskId).join(', ')) && passed;
+    const misparented = forks.filter(span => span.parent === undefined ||
+      taskId(span.parent) !== taskId(span).slice(0, taskId(span).lastIndexOf('.')));
+    passed = check('children of the forking task', misparented.length === 0,
+      forks.map(span => `${span.parent ? taskId(span.parent) : 'none'} -> ${taskId(span)}`).join(', ')) && passed;
+    passed = check('spans ended', tracer.spans.every(span => span.ended),
+      `${tracer.spans.filter(span => span.ended).length}/${tracer.spans.length}`) && passed;
+
+    const metrics = pool.getMetrics();
+    const started = metrics.started - warmMetrics.started;
+    const finished = metrics.finished - warmMetrics.finished;
+    passed = check('metrics', started === tracer.spans.length && finished === started && metrics.running === 0,
+      `started ${started}, finished ${finished}, running ${metrics.running}, ${tracer.spans.length} span(s)`) && passed;
+    let running = 0;
+    let peak = 0;
+    for (const event of events) {
+      if (event.type === 'started') {
+        peak = Math.max(peak, ++running);
+      } else if (event.type !== 'queued') {
+        running--;
+      }
+    }
+    passed = check('within the thread count', peak <= THREADS, `at most ${peak} running at once`) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+
+  console.log(`\nfib(5) from a queue of maxConcurrency 1, on ${THREADS} warm threads:`);
+  const limited = new ThreadPool([new ThreadQueue('limited', {maxConcurrency: 1})], {threads: THREADS});
+  const limitedTracer = new RecordingTracer();
+  try {
+    await Promise.all(Array.from({length: THREADS}, () => limited.submit(createSleepTask(100)).toPromise()));
+    const exporter = new OpenTelemetryExporter(limited, {tracer: limitedTracer});
+    const [value] = await limited.submit(createFibTask(5)).toPromise();
+    exporter.stop();
+    passed = check('value', value === 5, String(value)) && passed;
+    passed = check('children run by their parent', limitedTracer.spans.length === 1,
+      limitedTracer.spans.map(span => String(span.attributes['rx_thread_pool.task_id'])).join(', ')) && passed;
+  } finally {
+    await limited.shutdown();
+  }
+
+  return passed;
+}
+
+runChecks('tracing', main);
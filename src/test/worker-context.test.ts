@@ -0,0 +1,73 @@
+import {map, Observable} from 'rxjs';
+import {ThreadPool, ThreadQueue, WorkerContext} from '../index';
+import {check, runChecks} from './checks';
+
+console.log('=== Worker Context Test ===\n');
+
+// Provided to thread functions by the pool's worker context
+declare const path: typeof import('path');
+declare const config: {factor: number};
+declare const offset: number;
+
+/**
+ * Get the error a pool constructor throws for a context, if any
+ */
+function constructorError(context: WorkerContext): string | undefined {
+  try {
+    new ThreadPool([new ThreadQueue('invalid')], {threads: 1, context});
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function main(): Promise<boolean> {
+  let passed = true;
+
+  console.log('A module, a value and an init hook adding an entry:');
+  const pool = new ThreadPool([new ThreadQueue('context')], {
+    threads: 1,
+    context: {
+      modules: {path: 'path'},
+      values: {config: {factor: 3}},
+      init: (context) => {
+        context.offset = context.config.factor * 10;
+      }
+    }
+  });
+  try {
+    const results = await pool.run((input$: Observable<string>) => input$.pipe(
+      map(file => `${path.basename(file)} ${config.factor} ${offset}`)
+    ), ['/data/a.csv']);
+    passed = check('injected', results[0] === 'a.csv 3 30', results.join(', ')) && passed;
+  } finally {
+    await pool.shutdown();
+  }
+
+  console.log('\nAn init hook that throws:');
+  const failing = new ThreadPool([new ThreadQueue('failing-init')], {
+    threads: 1,
+    context: {
+      init: () => {
+        throw new Error('Intentional init failure');
+      }
+    }
+  });
+  try {
+    const error = await failing.run((input$: Observable<number>) => input$, [1]).then(() => undefined, (error: unknown) => error);
+    const message = error instanceof Error ? error.message : 'resolved';
+    passed = check('task fails with its error', message.includes('Intentional init failure'), message) && passed;
+  } finally {
+    await failing.shutdown();
+  }
+
+  console.log('\nInvalid contexts:');
+  const badName = constructorError({values: {'not-an-identifier': 1}});
+  passed = check('name not an identifier', badName?.includes('not a valid identifier') === true, String(badName)) && passed;
+  const badModule = constructorError({modules: {missing: 'no-such-module-anywhere'}});
+  passed = check('module not found', badModule?.includes('cannot be resolved') === true, String(badModule)) && passed;
+
+  return passed;
+}
+
+runChecks('worker context', main);
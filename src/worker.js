@@ -1,4 +1,5 @@
-const { parentPort, workerData } = require('worker_threads');
+const { parentPort, workerData: threadWorkerData } = require('worker_threads');
+const { pathToFileURL } = require('url');
 const rxjs = require('rxjs');
 const operators = require('rxjs/operators');
 
@@ -6,101 +7,433 @@ const operators = require('rxjs/operators');
 const path = require('path');
 const frameworkPath = path.join(__dirname, 'index.js');
 const framework = require(frameworkPath);
+const threadPoolModule = require(path.join(__dirname, 'ThreadPool.js'));
+const { serializeError, deserializeError } = require(path.join(__dirname, 'ThreadTaskError.js'));
+const { getTransferList } = require(path.join(__dirname, 'Transfer.js'));
+const { bindActor, exportActors } = require(path.join(__dirname, 'ActorTask.js'));
 
-if (parentPort) {
-  const { functionString, inputData, threadId } = workerData;
+// Worker threads talk to their pool through parentPort. Child processes forked by a ChildProcessExecutor
+// talk through their IPC channel, whose first message carries the workerData.
+const channel = parentPort || (process.send ? {
+  postMessage: (message) => process.send(message),
+  on: (event, listener) => process.on(event, listener)
+} : null);
 
-  try {
-    // Replace TypeScript compiled rxjs and index references with actual modules
-    // This handles the case where functions are serialized after TypeScript compilation
-    let processedFunctionString = functionString;
-    
-    // Replace all rxjs module references (rxjs_1, rxjs_2, etc.)
-    processedFunctionString = processedFunctionString.replace(/rxjs_\d+\./g, 'rxjs.');
-    processedFunctionString = processedFunctionString.replace(/operators_\d+\./g, 'operators.');
-    
-    // Replace import_rxjs, import_rxjs2, etc. patterns (alternative TypeScript compilation)
-    processedFunctionString = processedFunctionString.replace(/import_rxjs\d*/g, 'rxjs');
-    processedFunctionString = processedFunctionString.replace(/import_operators\d*/g, 'operators');
-    
-    // CRITICAL: Replace index_1, index_2, etc. (TypeScript compiled imports from './index')
-    // This handles: import { ThreadTask, ThreadQueue, ThreadPool } from './index'
-    processedFunctionString = processedFunctionString.replace(/index_\d+\./g, 'framework.');
-    
-    // Create a context with rxjs and framework classes available
-    const context = {
+// Compiled thread functions, keyed by their source, so repeated tasks skip recompilation
+const compiledFunctions = new Map();
+
+// Modules and values of the pool's WorkerContext, plus whatever its init hook adds
+const injected = {};
+let threadFuncContext = null;
+
+/**
+ * Get the identifiers thread functions may use: every rxjs export, the framework classes,
+ * and the injected modules and values, which take precedence
+ */
+function getThreadFuncContext() {
+  if (!threadFuncContext) {
+    threadFuncContext = {
+      ...rxjs,
       rxjs: rxjs,
       operators: operators,
-      Observable: rxjs.Observable,
-      of: rxjs.of,
-      from: rxjs.from,
-      map: rxjs.map,
-      filter: rxjs.filter,
-      reduce: rxjs.reduce,
-      delay: rxjs.delay,
-      mergeMap: rxjs.mergeMap,
-      switchMap: rxjs.switchMap,
-      concatMap: rxjs.concatMap,
-      tap: rxjs.tap,
-      catchError: rxjs.catchError,
-      finalize: rxjs.finalize,
-      take: rxjs.take,
-      skip: rxjs.skip,
-      first: rxjs.first,
-      last: rxjs.last,
       // Framework classes for recursive tasks
       framework: framework,  // Add framework as namespace
       ThreadTask: framework.ThreadTask,
       ThreadQueue: framework.ThreadQueue,
-      ThreadPool: framework.ThreadPool
+      ThreadPool: framework.ThreadPool,
+      transfer: framework.transfer,
+      createSharedArray: framework.createSharedArray,
+      getCurrentTaskId: framework.getCurrentTaskId,
+      ...injected
     };
-    
-    // Create function with context
-    const functionCreator = new Function(
-      ...Object.keys(context),
-      `return ${processedFunctionString}`
-    );
-    
-    const threadFunc = functionCreator(...Object.values(context));
-    
-    // Create input observable from the data
-    const input = new rxjs.Observable(subscriber => {
-      if (Array.isArray(inputData)) {
-        inputData.forEach(item => subscriber.next(item));
-      } else if (inputData !== undefined && inputData !== null) {
-        subscriber.next(inputData);
+  }
+  return threadFuncContext;
+}
+
+/**
+ * Load the modules and values of the pool's WorkerContext and run its init hook
+ */
+async function initializeWorkerContext({ modules, values, init }) {
+  for (const [name, modulePath] of Object.entries(modules)) {
+    injected[name] = require(modulePath);
+  }
+  Object.assign(injected, values);
+  threadFuncContext = null;
+
+  if (init) {
+    await compileThreadFunc(init)(injected);
+    // Entries added by the hook become visible to thread functions compiled from now on
+    threadFuncContext = null;
+  }
+}
+
+/**
+ * Rebuild a thread function from its serialized source.
+ * This is the fallback for plain ThreadTasks: the function may only use the context below.
+ */
+function compileThreadFunc(functionString) {
+  const cached = compiledFunctions.get(functionString);
+  if (cached) {
+    return cached;
+  }
+
+  // Replace TypeScript compiled rxjs and index references with actual modules
+  // This handles the case where functions are serialized after TypeScript compilation
+  let processedFunctionString = functionString;
+
+  // Replace all rxjs module references (rxjs_1, rxjs_2, etc.)
+  processedFunctionString = processedFunctionString.replace(/rxjs_\d+\./g, 'rxjs.');
+  processedFunctionString = processedFunctionString.replace(/operators_\d+\./g, 'operators.');
+
+  // Replace import_rxjs, import_rxjs2, etc. patterns (alternative TypeScript compilation)
+  processedFunctionString = processedFunctionString.replace(/import_rxjs\d*/g, 'rxjs');
+  processedFunctionString = processedFunctionString.replace(/import_operators\d*/g, 'operators');
+
+  // CRITICAL: Replace index_1, index_2, etc. (TypeScript compiled imports from './index')
+  // This handles: import { ThreadTask, ThreadQueue, ThreadPool } from './index'
+  processedFunctionString = processedFunctionString.replace(/index_\d+\./g, 'framework.');
+
+  const context = getThreadFuncContext();
+
+  // Create function with context
+  const functionCreator = new Function(
+    ...Object.keys(context),
+    `return ${processedFunctionString}`
+  );
+
+  const threadFunc = functionCreator(...Object.values(context));
+  compiledFunctions.set(functionString, threadFunc);
+  return threadFunc;
+}
+
+/**
+ * Load a thread function exported by a module.
+ * CommonJS modules are require()d; ES modules can only be import()ed asynchronously,
+ * so the returned function then waits for the import before running.
+ */
+function loadModuleThreadFunc(modulePath, exportName) {
+  const key = `module:${modulePath}#${exportName}`;
+  const cached = compiledFunctions.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pickExport = (module) => {
+    const exported = module[exportName];
+    if (typeof exported !== 'function') {
+      throw new Error(`Export "${exportName}" of module ${modulePath} is not a function`);
+    }
+    return exported;
+  };
+
+  let threadFunc;
+  try {
+    threadFunc = pickExport(require(modulePath));
+  } catch (error) {
+    if (error.code !== 'ERR_REQUIRE_ESM') {
+      throw error;
+    }
+    const specifier = path.isAbsolute(modulePath) ? pathToFileURL(modulePath).href : modulePath;
+    const loaded = import(specifier).then(pickExport);
+    threadFunc = (input, threadId, forkJoin) =>
+      rxjs.from(loaded).pipe(rxjs.mergeMap(exported => exported(input, threadId, forkJoin)));
+  }
+
+  compiledFunctions.set(key, threadFunc);
+  return threadFunc;
+}
+
+/**
+ * Obtain the thread function described by a task's ThreadFuncSource
+ */
+function resolveThreadFunc(source) {
+  if (source.kind === 'module') {
+    return loadModuleThreadFunc(source.modulePath, source.exportName);
+  }
+  return compileThreadFunc(source.functionString);
+}
+
+// Children forked by tasks on this worker, keyed by fork id
+const pendingForks = new Map();
+let nextForkId = 1;
+
+/**
+ * Create the fork/join handle passed to a thread function.
+ * Forks are scheduled by the parent ThreadPool; results come back as fork-* messages.
+ * @param threadFunc - The function forked children run
+ * @param ownerThreadId - threadId of the task dispatched to this worker, used to route messages
+ */
+function createForkJoin(threadFunc, ownerThreadId) {
+  let forked = [];
+  return {
+    fork(subInput) {
+      const fork = { forkId: nextForkId++, input: subInput, threadFunc, ownerThreadId, values: [] };
+      fork.promise = new Promise((resolve, reject) => {
+        fork.resolve = resolve;
+        fork.reject = reject;
+      });
+      // Failures surface through join(); don't report them as unhandled before that
+      fork.promise.catch(() => {});
+      pendingForks.set(fork.forkId, fork);
+      forked.push(fork);
+      channel.postMessage({ type: 'fork', threadId: ownerThreadId, forkId: fork.forkId, inputData: [subInput] });
+    },
+    join() {
+      const joining = forked;
+      forked = [];
+      const forkIds = joining.filter(fork => pendingForks.has(fork.forkId)).map(fork => fork.forkId);
+      if (forkIds.length > 0) {
+        channel.postMessage({ type: 'join', threadId: ownerThreadId, forkIds });
       }
+      return Promise.all(joining.map(fork => fork.promise))
+        .then(valueArrays => [].concat(...valueArrays));
+    }
+  };
+}
+
+/**
+ * Forget the children of a finished task that were never joined
+ */
+function discardForks(ownerThreadId) {
+  for (const [forkId, fork] of pendingForks) {
+    if (fork.ownerThreadId === ownerThreadId) {
+      pendingForks.delete(forkId);
+    }
+  }
+}
+
+// Live input streams of the tasks running on this worker, keyed by threadId
+const liveInputs = new Map();
+
+/**
+ * Create the input observable of a dispatched task. Values arrive in 'input' messages
+ * while the task runs; each value delivered to the thread function is acknowledged so
+ * the parent can send more. Values arriving before the thread function subscribes are
+ * held until it does.
+ */
+function createLiveInput(threadId, inputData, inputComplete) {
+  const buffered = [...inputData];
+  let completed = inputComplete;
+  let subscriber = null;
+  let unacknowledged = 0;
+
+  const acknowledge = () => {
+    if (unacknowledged === 0) {
+      setImmediate(() => {
+        channel.postMessage({ type: 'input-ack', threadId, count: unacknowledged });
+        unacknowledged = 0;
+      });
+    }
+    unacknowledged++;
+  };
+
+  const drain = () => {
+    while (subscriber && buffered.length > 0) {
+      const value = buffered.shift();
+      subscriber.next(value);
+      acknowledge();
+    }
+    if (subscriber && completed && buffered.length === 0) {
       subscriber.complete();
+      liveInputs.delete(threadId);
+    }
+  };
+
+  if (!completed) {
+    liveInputs.set(threadId, {
+      push: (values) => {
+        buffered.push(...values);
+        drain();
+      },
+      complete: () => {
+        completed = true;
+        drain();
+      }
     });
+  }
 
+  return new rxjs.Observable(inputSubscriber => {
+    subscriber = inputSubscriber;
+    drain();
+    return () => {
+      subscriber = null;
+    };
+  });
+}
+
+/**
+ * Run a thread function and report its output through the given callbacks
+ */
+function execute(threadFunc, input, threadId, ownerThreadId, callbacks) {
+  try {
     // Execute the thread function
-    const result = threadFunc(input, threadId);
+    const result = threadFunc(input, threadId, createForkJoin(threadFunc, ownerThreadId));
 
     // Subscribe to the result observable and send values back
-    const values = [];
-    result.subscribe({
-      next: (value) => {
-        values.push(value);
-        parentPort.postMessage({ type: 'next', value, threadId });
-      },
+    result.subscribe(callbacks);
+  } catch (error) {
+    callbacks.error(error);
+  }
+}
+
+/**
+ * Run one task and report its output to the parent with the task's threadId
+ */
+function runTask({ source, inputData, inputComplete, transferOutput, relayEvents, actor, threadId, taskId }) {
+  let threadFunc;
+  try {
+    if (contextError) {
+      throw new Error(`Worker context initialization failed: ${contextError.message}`);
+    }
+    threadFunc = resolveThreadFunc(source);
+    // Actor behaviors run with the actor's state, kept on this worker between its tasks
+    if (actor) {
+      threadFunc = bindActor(threadFunc, actor);
+    }
+  } catch (error) {
+    channel.postMessage({
+      type: 'error',
+      error: serializeError(error),
+      threadId
+    });
+    return;
+  }
+
+  // Pools the task creates take their task ids from it and report their events as belonging to it
+  threadPoolModule.setWorkerTaskContext({ threadId, taskId, relayEvents });
+  const finishTask = () => {
+    liveInputs.delete(threadId);
+    discardForks(threadId);
+    threadPoolModule.setWorkerTaskContext(undefined);
+  };
+
+  const input = createLiveInput(threadId, inputData, inputComplete);
+  execute(threadFunc, input, threadId, threadId, {
+    next: (value) => {
+      channel.postMessage({ type: 'next', value, threadId }, getTransferList([value], transferOutput));
+    },
+    error: (error) => {
+      finishTask();
+      channel.postMessage({
+        type: 'error',
+        error: serializeError(error),
+        threadId
+      });
+    },
+    complete: () => {
+      finishTask();
+      channel.postMessage({ type: 'complete', threadId });
+    }
+  });
+}
+
+/**
+ * Handle a fork-* message from the parent about a child of a task on this worker
+ */
+function handleForkMessage(message) {
+  const fork = pendingForks.get(message.forkId);
+  if (!fork) {
+    return;
+  }
+
+  if (message.type === 'fork-next') {
+    fork.values.push(message.value);
+  } else if (message.type === 'fork-complete') {
+    pendingForks.delete(fork.forkId);
+    fork.resolve(fork.values);
+  } else if (message.type === 'fork-error') {
+    pendingForks.delete(fork.forkId);
+    fork.reject(deserializeError(message.error));
+  } else if (message.type === 'fork-steal') {
+    // No worker picked the child up in time, so this worker runs it inline
+    execute(fork.threadFunc, rxjs.of(fork.input), message.childThreadId, fork.ownerThreadId, {
+      next: (value) => fork.values.push(value),
       error: (error) => {
-        parentPort.postMessage({ 
-          type: 'error', 
-          error: error.message || String(error), 
-          stack: error.stack,
-          threadId 
-        });
+        pendingForks.delete(fork.forkId);
+        fork.reject(error);
       },
       complete: () => {
-        parentPort.postMessage({ type: 'complete', values, threadId });
+        pendingForks.delete(fork.forkId);
+        fork.resolve(fork.values);
       }
     });
-  } catch (error) {
-    parentPort.postMessage({ 
-      type: 'error', 
-      error: error.message || String(error),
-      stack: error.stack,
-      threadId 
-    });
+  }
+}
+
+// Tasks a nested ThreadPool runs inline (no free governor slot) are resolved like dispatched ones,
+// so free rxjs/framework identifiers resolve against the worker context
+threadPoolModule.setInlineThreadFuncResolver(task => resolveThreadFunc(task.getThreadFuncSource()));
+
+// Set when loading the WorkerContext failed; every task on this worker then fails with it
+let contextError = null;
+
+/**
+ * Handle a message from the parent
+ */
+function handleMessage(message) {
+  if (message.type === 'run') {
+    runTask(message);
+  } else if (message.type === 'input') {
+    liveInputs.get(message.threadId)?.push(message.values);
+  } else if (message.type === 'input-complete') {
+    liveInputs.get(message.threadId)?.complete();
+  } else if (message.type.startsWith('fork-')) {
+    handleForkMessage(message);
+  } else if (message.type === 'actor-export') {
+    // A rebalance moves these actors to another worker
+    channel.postMessage({ type: 'actor-states', exportId: message.exportId, states: exportActors(message.keys) });
+  }
+}
+
+// Messages arriving before the worker is set up, or while its WorkerContext loads, are held until it is ready
+let heldMessages = [];
+
+const releaseHeldMessages = () => {
+  const messages = heldMessages;
+  heldMessages = null;
+  messages.forEach(handleMessage);
+};
+
+/**
+ * Set the worker up from its workerData, then handle the messages held meanwhile
+ */
+function startWorker(workerData) {
+  // Nested ThreadPools borrow from the parent's thread budget instead of creating their own
+  if (workerData && workerData.governor) {
+    framework.ConcurrencyGovernor.attachGlobal(workerData.governor);
+  }
+  threadPoolModule.setWorkerHost({
+    postMessage: (message) => channel.postMessage(message),
+    context: workerData ? workerData.context : undefined
+  });
+
+  if (workerData && workerData.context) {
+    initializeWorkerContext(workerData.context)
+      .catch(error => {
+        contextError = error;
+      })
+      .then(releaseHeldMessages);
+  } else {
+    releaseHeldMessages();
+  }
+}
+
+// The worker stays alive between tasks and runs each 'run' message it receives
+if (channel) {
+  channel.on('message', (message) => {
+    if (message.type === 'worker-data') {
+      startWorker(message.workerData);
+    } else if (heldMessages) {
+      heldMessages.push(message);
+    } else {
+      handleMessage(message);
+    }
+  });
+
+  if (parentPort) {
+    startWorker(threadWorkerData);
+  } else {
+    // A child process outlives neither its pool nor its connection to it
+    process.on('disconnect', () => process.exit(0));
   }
 }